@@ -0,0 +1,113 @@
+/**
+ * External asset output.
+ *
+ * With `ConversionOptions.assets` set, images and embedded associated files are
+ * written to separate files instead of being inlined as data URIs. Files are named by
+ * a hash of their content, so identical content is stored once, and objects already
+ * written for the same PDF object reference are not encoded again.
+ */
+
+import type { PDFContext } from "./pdf_js_context.ts";
+import { Ref } from "#pdfjs/core/primitives.js";
+
+export interface AssetFile {
+    data: Uint8Array;
+    mediaType: string;
+}
+
+/** Relative path (as referenced from the HTML) → file */
+export type AssetMap = Record<string, AssetFile>;
+
+export interface AssetOptions {
+    /** Directory, relative to the HTML file, that assets are written to (default "assets") */
+    directory?: string;
+    /** Called once for each new file, in addition to the file map returned with the result */
+    onAsset?: (path: string, file: AssetFile) => void;
+}
+
+/** Files written by the conversion in flight */
+export interface AssetState {
+    files: Map<string, AssetFile>;
+    /** Ref key of the source object → path */
+    byRef: Map<string, string>;
+}
+
+const DEFAULT_DIRECTORY = "assets";
+
+const EXTENSIONS: Record<string, string> = {
+    "image/png": "png",
+    "image/jpeg": "jpg",
+    "image/gif": "gif",
+    "image/svg+xml": "svg",
+    "text/css": "css",
+    "text/javascript": "js",
+    "application/javascript": "js"
+};
+
+export function createAssetState(): AssetState {
+    return { files: new Map(), byRef: new Map() };
+}
+
+export function isExternalAssets(context: PDFContext): boolean {
+    return context.options.assets !== undefined;
+}
+
+/** Path of the file already written for this object, if any */
+export function findAsset(context: PDFContext, ref: unknown): string | undefined {
+    return ref instanceof Ref ? context.assets.byRef.get(getRefKey(ref as Ref)) : undefined;
+}
+
+/** Stores a file and returns its path relative to the HTML */
+export async function addAsset(context: PDFContext, file: AssetFile, ref?: unknown): Promise<string> {
+    const { files, byRef } = context.assets;
+    const directory = context.options.assets?.directory ?? DEFAULT_DIRECTORY;
+    const extension = EXTENSIONS[file.mediaType] ?? "bin";
+    const name = `${await hashContent(file.data)}.${extension}`;
+    const path = directory ? `${directory.replace(/\/+$/, "")}/${name}` : name;
+
+    if (!files.has(path)) {
+        files.set(path, file);
+        context.options.assets?.onAsset?.(path, file);
+    }
+    if (ref instanceof Ref) byRef.set(getRefKey(ref as Ref), path);
+    return path;
+}
+
+/** The image URL to reference: the data URI itself, or the path of the file it was written to */
+export async function getImageSource(context: PDFContext, dataUri: string, ref?: unknown): Promise<string> {
+    if (!isExternalAssets(context) || !dataUri.startsWith("data:")) return dataUri;
+    const file = decodeDataUri(dataUri);
+    return file ? addAsset(context, file, ref) : dataUri;
+}
+
+export function getAssetMap(context: PDFContext): AssetMap {
+    return Object.fromEntries(context.assets.files);
+}
+
+function decodeDataUri(dataUri: string): AssetFile | null {
+    const match = /^data:([^;,]+)(;base64)?,(.*)$/s.exec(dataUri);
+    if (!match) return null;
+    const [, mediaType, base64, payload] = match;
+    if (!base64) return { data: new TextEncoder().encode(decodeURIComponent(payload)), mediaType };
+
+    const binary = atob(payload);
+    const data = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        data[i] = binary.charCodeAt(i);
+    }
+    return { data, mediaType };
+}
+
+// First 16 hex digits of the SHA-256 digest
+async function hashContent(data: Uint8Array): Promise<string> {
+    const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data as Uint8Array<ArrayBuffer>));
+    let hex = "";
+    for (const byte of digest.subarray(0, 8)) {
+        hex += byte.toString(16).padStart(2, "0");
+    }
+    return hex;
+}
+
+function getRefKey(ref: Ref): string {
+    return `${ref.num}R${ref.gen}`;
+}
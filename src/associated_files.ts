@@ -1,6 +1,14 @@
 import { PDFContext } from "./pdf_js_context.ts";
 import { Dict, Name, Ref } from "#pdfjs/core/primitives.js";
 import { stringToPDFString } from "#pdfjs/shared/util.js";
+import { checkLimit, takeTruncationMarker } from "./resource_limits.ts";
+import { addAsset, findAsset, isExternalAssets } from "./assets.ts";
+import { h, raw, text } from "./html_tree.ts";
+import { isSafeCss, sanitizeCss, sanitizeMarkup } from "./sanitizer.ts";
+import { applyUrlPolicy, blockedUrlProperties } from "./url_policy.ts";
+import type { UrlUsage } from "./url_policy.ts";
+import { nonceProperties } from "./content_security_policy.ts";
+import type { HtmlContent } from "./html_tree.ts";
 import type { AFRelationship, PDFStream } from "./types.ts";
 
 // Spec 4.6.3 Table 9
@@ -19,24 +27,24 @@ const MEDIA_TYPES: Record<string, string> = {
 };
 
 export interface AFResult {
-    content: string; // The HTML string to output
+    content: HtmlContent[]; // The nodes to output
     relationship: "Alternative" | "Supplement" | "Ignore";
     place: "Head" | "Inline" | "After"; // Where to put it
 }
 
-export async function processHeadAssociatedFiles(context: PDFContext): Promise<string> {
+export async function processHeadAssociatedFiles(context: PDFContext): Promise<HtmlContent[]> {
     const { structTreeRoot, rootDict } = context;
-    if (!structTreeRoot && !rootDict) return "";
+    if (!structTreeRoot && !rootDict) return [];
 
     // §4.6.4: include document-level and structure-tree associated files in head
     const afs: (Ref | Dict)[] = [];
     if (rootDict) afs.push(...getAssociatedFiles(context, rootDict));
     if (structTreeRoot) afs.push(...getAssociatedFiles(context, structTreeRoot.dict));
-    if (afs.length === 0) return "";
+    if (afs.length === 0) return [];
 
     const seenRefs = new Set<string>();
     const seenDicts = new WeakSet<Dict>();
-    let headContent = "";
+    const headContent: HtmlContent[] = [];
 
     for (const af of afs) {
         if (af instanceof Ref) {
@@ -48,8 +56,8 @@ export async function processHeadAssociatedFiles(context: PDFContext): Promise<s
             seenDicts.add(af);
         }
         const result = await processAssociatedFile(context, af, true);
-        if (result && result.content) {
-            headContent += result.content + "\n";
+        if (result && result.content.length > 0) {
+            headContent.push(...result.content, text("\n"));
         }
     }
     return headContent;
@@ -59,12 +67,12 @@ function getRefKey(ref: Ref): string {
     return `${ref.num}R${ref.gen}`;
 }
 
-export async function getStructureAssociatedFiles(context: PDFContext, element: Dict): Promise<{ replacement?: string, supplements: string[] }> {
+export async function getStructureAssociatedFiles(context: PDFContext, element: Dict): Promise<{ replacement?: HtmlContent[], supplements: HtmlContent[][] }> {
     const afs = getAssociatedFiles(context, element);
     if (afs.length === 0) return { supplements: [] };
 
-    let replacement: string | undefined;
-    const supplements: string[] = [];
+    let replacement: HtmlContent[] | undefined;
+    const supplements: HtmlContent[][] = [];
 
     for (const af of afs) {
         const result = await processAssociatedFile(context, af, false);
@@ -121,7 +129,7 @@ async function processAssociatedFile(context: PDFContext, fileSpecRef: Ref | Dic
         const f = fileSpec.get("F") as string | undefined;
         if (f) {
             const url = stringToPDFString(f);
-            return processURLReference(url, relationship, isHead);
+            return processURLReference(context, url, relationship, isHead);
         }
     }
 
@@ -135,55 +143,77 @@ async function processEmbeddedFile(context: PDFContext, streamRef: Ref | Dict, r
     const subtype = (stream.dict.get("Subtype") as Name | undefined)?.name;
     const typeCategory = subtype ? MEDIA_TYPES[subtype] : undefined;
 
-    if (!typeCategory) return null;
+    if (!subtype || !typeCategory) return null;
+    // §11: JavaScript associated files are scripts too (safe mode switches them off)
+    if (typeCategory === "js" && !context.options.includeScripts) return null;
+
+    // External assets: a file already written for this stream is referenced again
+    const externalCategory = isExternalAssets(context) && EXTERNAL_CATEGORIES.has(typeCategory);
+    const existing = externalCategory ? findAsset(context, streamRef) : undefined;
+    if (existing) return referenceAsset(context, existing, typeCategory, relationship, isHead);
 
     // Get Data
+    // §14.2: Decode at most one byte past the limit so oversized files are detected without being fully inflated
+    const maxSize = context.options.limits.maxAssociatedFileSize;
     let data: Uint8Array;
     try {
-        data = stream.getBytes();
+        data = maxSize === undefined ? stream.getBytes() : stream.getBytes(maxSize + 1);
     } catch (e) {
         return null;
     }
+    if (!checkLimit(context, "maxAssociatedFileSize", data.length)) {
+        // Never used as an Alternative, so the element's own content is still rendered
+        const marker = takeTruncationMarker(context, "maxAssociatedFileSize");
+        return marker.length > 0 ? { content: marker, relationship: "Supplement", place: isHead ? "Head" : "Inline" } : null;
+    }
+
+    if (externalCategory) {
+        const path = await addAsset(context, { data, mediaType: subtype }, streamRef);
+        return referenceAsset(context, path, typeCategory, relationship, isHead);
+    }
 
     // Convert based on type
     if (typeCategory === "html") {
-        const text = new TextDecoder().decode(data);
+        const markup = new TextDecoder().decode(data);
         // Spec 4.6.4.2: Direct injection
         // If Head: Inject directly.
         // If Inline (Supplement/Alternative): Inject directly.
+        // §14.3: Safe mode re-serializes the allowlisted part of the markup instead
         return {
-            content: text,
+            content: context.options.safeMode ? sanitizeMarkup(markup) : [raw(markup)],
             relationship,
             place: isHead ? "Head" : "Inline"
         };
     }
 
     if (typeCategory === "css") {
-        const text = new TextDecoder().decode(data);
+        const css = new TextDecoder().decode(data);
+        // §14.2: In safe mode, CSS that loads resources or runs script is left out
+        if (context.options.safeMode && !isSafeCss(css)) return null;
         // Spec 4.6.4.3:
         // If Embedded CSS: output HTML style element...
         return {
-            content: `<style>\n${text}\n</style>`,
+            content: [h("style", nonceProperties(context), [text(`\n${context.options.safeMode ? sanitizeCss(css) : css}\n`)])],
             relationship,
             place: isHead ? "Head" : "Inline"
         };
     }
 
     if (typeCategory === "js") {
-        const text = new TextDecoder().decode(data);
+        const js = new TextDecoder().decode(data);
         // Spec 4.6.4.4:
         // Script element
         return {
-            content: `<script>\n${text}\n</script>`,
+            content: [h("script", nonceProperties(context), [text(`\n${js}\n`)])],
             relationship,
             place: isHead ? "Head" : "After" // JS usually after closing tag
         };
     }
 
     if (typeCategory === "mathml") {
-        const text = new TextDecoder().decode(data);
+        const markup = new TextDecoder().decode(data);
         return {
-            content: text,
+            content: context.options.safeMode ? sanitizeMarkup(markup) : [raw(markup)],
             relationship,
             place: "Inline"
         };
@@ -197,7 +227,7 @@ async function processEmbeddedFile(context: PDFContext, streamRef: Ref | Dict, r
         // Spec 4.6.4.5 / 4.6.4.6: <img> element
         // If SVG and Supplement?
         return {
-            content: `<img src="${src}" alt="Associated Image" />`,
+            content: [h("img", { src, alt: "Associated Image" })],
             relationship,
             place: "Inline"
         };
@@ -206,33 +236,79 @@ async function processEmbeddedFile(context: PDFContext, streamRef: Ref | Dict, r
     return null;
 }
 
-function processURLReference(url: string, relationship: AFRelationship, isHead: boolean): AFResult | null {
+// Categories written as separate files in external asset mode; HTML and MathML stay inline markup
+const EXTERNAL_CATEGORIES = new Set(["css", "js", "image", "svg"]);
+
+function referenceAsset(context: PDFContext, path: string, typeCategory: string, relationship: AFRelationship, isHead: boolean): AFResult {
+    if (typeCategory === "css") {
+        return { content: [h("link", { rel: "stylesheet", href: path })], relationship, place: isHead ? "Head" : "Inline" };
+    }
+    if (typeCategory === "js") {
+        return { content: [h("script", nonceProperties(context, { src: path }))], relationship, place: isHead ? "Head" : "After" };
+    }
+    return { content: [h("img", { src: path, alt: "Associated Image" })], relationship, place: "Inline" };
+}
+
+type ReferenceUsage = Extract<UrlUsage, "stylesheet" | "script" | "image" | "import">;
+
+// Spec 4.6.3: URL references are recognized by their filename extension
+const URL_REFERENCE_USAGES: Record<string, ReferenceUsage> = {
+    css: "stylesheet",
+    js: "script",
+    jpg: "image",
+    jpeg: "image",
+    png: "image",
+    gif: "image",
+    svg: "image",
+    html: "import",
+    htm: "import"
+};
+
+// Placeholders for blocked URL references
+const URL_REFERENCE_TAGS: Record<ReferenceUsage, string> = {
+    stylesheet: "style",
+    script: "script",
+    image: "img",
+    import: "link"
+};
+
+function processURLReference(context: PDFContext, url: string, relationship: AFRelationship, isHead: boolean): AFResult | null {
     // Determine type from extension if possible?
     // Spec 4.6.3: Use filename extension.
     const ext = url.split('.').pop()?.toLowerCase();
-
-    let tag = "";
-
-    // Simple heuristic based on extension
-    if (ext === "css") {
+    const usage = ext && Object.hasOwn(URL_REFERENCE_USAGES, ext) ? URL_REFERENCE_USAGES[ext] : undefined;
+    if (!usage) return null;
+    if (usage === "script" && !context.options.includeScripts) return null;
+
+    // §14.3: The URL policy decides on the reference (safe mode only allows URLs with
+    // safe schemes, and no scripts or HTML imports)
+    const allowed = applyUrlPolicy(context, url, usage);
+
+    let tag: HtmlContent;
+
+    if (allowed === null) {
+        // The same element without the reference
+        const placeholder = blockedUrlProperties(context, url);
+        if (!placeholder) return null;
+        tag = h(URL_REFERENCE_TAGS[usage], placeholder);
+    } else if (usage === "stylesheet") {
          // Spec 4.6.4.3: @import
-         tag = `<style>@import url(${url});</style>`;
-    } else if (ext === "js") {
+         const css = context.options.safeMode ? JSON.stringify(sanitizeCss(allowed)) : allowed;
+         tag = h("style", nonceProperties(context), [text(`@import url(${css});`)]);
+    } else if (usage === "script") {
          // Spec 4.6.4.4
-         tag = `<script src="${url}"></script>`;
-    } else if (['jpg', 'jpeg', 'png', 'gif', 'svg'].includes(ext || "")) {
-         tag = `<img src="${url}" />`;
-    } else if (['html', 'htm'].includes(ext || "")) {
+         tag = h("script", nonceProperties(context, { src: allowed }));
+    } else if (usage === "image") {
+         tag = h("img", { src: allowed });
+    } else {
          // Spec 4.6.4.2 URL Ref: <link rel="import" href="..."> -> Spec says link element with rel=import (Wait, HTML Imports are deprecated/removed in modern browsers).
          // Spec 4.6.4.2: "processor shall add a link element... with attributes of rel (with a value of import) and href..."
          // We follow spec even if deprecated in browsers.
-         tag = `<link rel="import" href="${url}" />`;
-    } else {
-        return null;
+         tag = h("link", { rel: "import", href: allowed });
     }
 
     return {
-        content: tag,
+        content: [tag],
         relationship,
         place: isHead ? "Head" : "Inline"
     };
@@ -1,10 +1,12 @@
-import { Name, Dict } from "#pdfjs/core/primitives.js";
+import { Name, Dict, Ref } from "#pdfjs/core/primitives.js";
+import { stringToPDFString } from "#pdfjs/shared/util.js";
+import type { HtmlProperties } from "./html_tree.ts";
 import type { PDFAttributes, PDFColor } from "./types.ts";
 
 // Process attributes with priority ordering: List → Table → Layout → HTML → CSS → ARIA (§7.1)
 // Later attributes override earlier ones for the same property
-export function getHTMLAttributes(attributes: PDFAttributes): string {
-    if (!attributes) return "";
+export function getHTMLProperties(attributes: PDFAttributes): HtmlProperties {
+    if (!attributes) return {};
 
     // Attributes can be a Dict or Array of Dicts
     const attrList = Array.isArray(attributes) ? attributes : [attributes];
@@ -42,12 +44,7 @@ export function getHTMLAttributes(attributes: PDFAttributes): string {
     processCSSAttributesForHTML(cssAttrs, attrMap);
     processARIAAttributes(ariaAttrs, attrMap);
 
-    // Convert map to HTML attribute string
-    let attrs = "";
-    for (const [key, value] of attrMap) {
-        attrs += ` ${key}="${value}"`;
-    }
-    return attrs;
+    return Object.fromEntries(attrMap);
 }
 
 function processListAttributes(attrList: Dict[], attrMap: Map<string, string>) {
@@ -152,6 +149,45 @@ export function getBBox(attributes: PDFAttributes): number[] | null {
     return null;
 }
 
+/** Plain JSON form of an attribute value */
+export type SerializedAttributeValue =
+    | string
+    | number
+    | boolean
+    | null
+    | SerializedAttributeValue[]
+    | { [key: string]: SerializedAttributeValue };
+
+// Convert attribute dictionaries (including the owner O) to plain JSON objects
+export function serializeAttributes(attributes: PDFAttributes): Record<string, SerializedAttributeValue>[] {
+    if (!attributes) return [];
+    const attrList = Array.isArray(attributes) ? attributes : [attributes];
+    const out: Record<string, SerializedAttributeValue>[] = [];
+    for (const attrDict of attrList) {
+        if (!attrDict || !(attrDict instanceof Dict)) continue;
+        out.push(serializeDict(attrDict));
+    }
+    return out;
+}
+
+function serializeDict(dict: Dict): Record<string, SerializedAttributeValue> {
+    const out: Record<string, SerializedAttributeValue> = {};
+    for (const key of dict.getKeys()) {
+        out[key] = serializeValue(dict.getRaw(key));
+    }
+    return out;
+}
+
+function serializeValue(value: unknown): SerializedAttributeValue {
+    if (value instanceof Name) return (value as Name).name;
+    if (value instanceof Ref) return `${(value as Ref).num}R${(value as Ref).gen}`;
+    if (value instanceof Dict) return serializeDict(value as Dict);
+    if (Array.isArray(value)) return value.map(serializeValue);
+    if (typeof value === "string") return stringToPDFString(value);
+    if (typeof value === "number" || typeof value === "boolean") return value;
+    return null;
+}
+
 export function getCSSProperties(attributes: PDFAttributes): string {
     if (!attributes) return "";
 
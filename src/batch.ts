@@ -0,0 +1,163 @@
+/**
+ * Batch conversion of a directory tree of PDFs.
+ *
+ * Every *.pdf below the input directory is converted to an .html file at the
+ * same relative path below the output directory. Conversions run with bounded
+ * concurrency, and a JSON summary with one entry per file is written alongside.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createPDFContext } from "./pdf_js_context.ts";
+import { ensureStructure } from "./structure_inference.ts";
+import { convertToHTML } from "./converter.ts";
+import type { ConversionOptions } from "./conversion_options.ts";
+import type { Diagnostic } from "./diagnostics.ts";
+import { PDFNotTaggedError } from "./errors.ts";
+import { getAssetMap } from "./assets.ts";
+import type { AssetMap } from "./assets.ts";
+
+export type BatchFileStatus = "success" | "untagged" | "failed";
+
+/** Outcome of converting one file; paths are relative to the input and output directories */
+export interface BatchFileResult {
+    input: string;
+    /** Absent unless the conversion succeeded */
+    output?: string;
+    status: BatchFileStatus;
+    warnings: number;
+    errors: number;
+    durationMs: number;
+    /** Failure message for untagged and failed files */
+    message?: string;
+    diagnostics: Diagnostic[];
+}
+
+export interface BatchSummary {
+    inputDir: string;
+    outputDir: string;
+    startedAt: string;
+    durationMs: number;
+    total: number;
+    succeeded: number;
+    untagged: number;
+    failed: number;
+    files: BatchFileResult[];
+}
+
+export interface BatchOptions {
+    /** Options passed to every conversion (filename defaults to each input's name) */
+    conversion?: ConversionOptions;
+    /** Files converted at the same time (default 4) */
+    concurrency?: number;
+    /** Where to write the summary JSON (default: summary.json in the output directory); false to skip */
+    summaryPath?: string | false;
+    /** Called as each file finishes */
+    onFile?: (result: BatchFileResult) => void;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+export async function convertDirectory(
+    inputDir: string,
+    outputDir: string,
+    options: BatchOptions = {}
+): Promise<BatchSummary> {
+    const startedAt = new Date();
+    const start = performance.now();
+    const inputs = await findPdfFiles(inputDir);
+    const files: BatchFileResult[] = new Array(inputs.length);
+
+    // Workers pull the next file from a shared cursor; results keep the input order
+    let next = 0;
+    const concurrency = Math.max(1, Math.min(options.concurrency ?? DEFAULT_CONCURRENCY, inputs.length));
+    const workers = Array.from({ length: concurrency }, async () => {
+        while (next < inputs.length) {
+            const index = next++;
+            const result = await convertFile(inputDir, outputDir, inputs[index], options.conversion);
+            files[index] = result;
+            options.onFile?.(result);
+        }
+    });
+    await Promise.all(workers);
+
+    const summary: BatchSummary = {
+        inputDir: path.resolve(inputDir),
+        outputDir: path.resolve(outputDir),
+        startedAt: startedAt.toISOString(),
+        durationMs: Math.round(performance.now() - start),
+        total: files.length,
+        succeeded: files.filter((file) => file.status === "success").length,
+        untagged: files.filter((file) => file.status === "untagged").length,
+        failed: files.filter((file) => file.status === "failed").length,
+        files
+    };
+
+    if (options.summaryPath !== false) {
+        const summaryPath = options.summaryPath ?? path.join(outputDir, "summary.json");
+        await fs.mkdir(path.dirname(summaryPath), { recursive: true });
+        await fs.writeFile(summaryPath, JSON.stringify(summary, null, 2) + "\n");
+    }
+    return summary;
+}
+
+async function convertFile(
+    inputDir: string,
+    outputDir: string,
+    input: string,
+    conversion: ConversionOptions = {}
+): Promise<BatchFileResult> {
+    const start = performance.now();
+    let diagnostics: Diagnostic[] = [];
+    const finish = (result: Omit<BatchFileResult, "warnings" | "errors" | "durationMs" | "diagnostics">): BatchFileResult => ({
+        ...result,
+        warnings: diagnostics.filter((diagnostic) => diagnostic.severity === "warning").length,
+        errors: diagnostics.filter((diagnostic) => diagnostic.severity === "error").length,
+        durationMs: Math.round(performance.now() - start),
+        diagnostics
+    });
+
+    try {
+        const data = new Uint8Array(await fs.readFile(path.join(inputDir, input)));
+        const context = await createPDFContext(data, { ...conversion, filename: conversion.filename ?? path.basename(input) });
+        diagnostics = context.diagnostics;
+        await ensureStructure(context);
+        const html = await convertToHTML(context);
+
+        const output = input.replace(/\.pdf$/i, ".html");
+        const outputPath = path.join(outputDir, output);
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+        await fs.writeFile(outputPath, html);
+        await writeAssets(path.dirname(outputPath), getAssetMap(context));
+        return finish({ input, output, status: "success" });
+    } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        return finish({ input, status: e instanceof PDFNotTaggedError ? "untagged" : "failed", message });
+    }
+}
+
+/** Writes asset files below dir, the directory of the HTML that references them */
+export async function writeAssets(dir: string, assets: AssetMap): Promise<void> {
+    for (const [assetPath, file] of Object.entries(assets)) {
+        const filePath = path.join(dir, assetPath);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, file.data);
+    }
+}
+
+// Relative paths of all PDFs below dir, in a stable order
+async function findPdfFiles(dir: string, prefix = ""): Promise<string[]> {
+    const entries = await fs.readdir(path.join(dir, prefix), { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    const files: string[] = [];
+    for (const entry of entries) {
+        const relative = prefix ? path.join(prefix, entry.name) : entry.name;
+        if (entry.isDirectory()) {
+            files.push(...await findPdfFiles(dir, relative));
+        } else if (entry.isFile() && /\.pdf$/i.test(entry.name)) {
+            files.push(relative);
+        }
+    }
+    return files;
+}
@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+import { parseArgs } from "node:util";
+import { EXIT_CODES, parsePositiveInteger } from "../cli.ts";
+import { createConversionServer } from "../server.ts";
+
+const USAGE = `Usage: tagged-pdf-to-html-server [options]
+
+Options:
+      --port <n>                   Port to listen on (default 8080)
+      --host <host>                Host to listen on (default 127.0.0.1)
+      --max-body-size <bytes>      Largest accepted upload (default 50 MB)
+      --timeout <ms>               Per-request conversion timeout (default 60000)
+      --safe                       Convert every request in safe mode
+`;
+
+let settings: { port: number; host: string; maxBodySize?: number; timeout?: number; safe: boolean };
+try {
+    const { values } = parseArgs({
+        options: {
+            port: { type: "string", default: "8080" },
+            host: { type: "string", default: "127.0.0.1" },
+            "max-body-size": { type: "string" },
+            timeout: { type: "string" },
+            safe: { type: "boolean" }
+        }
+    });
+    const port = parsePositiveInteger("--port", values.port);
+    if (port > 65535) throw new Error("--port must be at most 65535.");
+    settings = {
+        port,
+        host: values.host,
+        maxBodySize: values["max-body-size"] === undefined ? undefined : parsePositiveInteger("--max-body-size", values["max-body-size"]),
+        timeout: values.timeout === undefined ? undefined : parsePositiveInteger("--timeout", values.timeout),
+        safe: !!values.safe
+    };
+} catch (e) {
+    process.stderr.write(`tagged-pdf-to-html-server: ${e instanceof Error ? e.message : String(e)}\n\n${USAGE}`);
+    process.exit(EXIT_CODES.usage);
+}
+
+const server = createConversionServer({
+    maxBodySize: settings.maxBodySize,
+    timeout: settings.timeout,
+    conversion: settings.safe ? { safeMode: true } : undefined
+});
+server.listen(settings.port, settings.host, () => {
+    console.log(`tagged-pdf-to-html listening on http://${settings.host}:${settings.port}/convert`);
+});
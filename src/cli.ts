@@ -0,0 +1,390 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import {
+    deriveDocumentModelFromPdf,
+    deriveEpubFromPdf,
+    deriveHtmlWithAssets,
+    deriveHtmlWithDiagnostics,
+    deriveJatsFromPdf,
+    deriveMarkdownFromPdf,
+    deriveTextFromPdf
+} from "./index.ts";
+import { convertDirectory, writeAssets } from "./batch.ts";
+import type { BatchFileResult } from "./batch.ts";
+import type { ConversionOptions, ImageFormat, PermissionPolicy, ResourceLimits, ScriptRuntime } from "./conversion_options.ts";
+import type { Diagnostic } from "./diagnostics.ts";
+import type { AssetMap } from "./assets.ts";
+import { PDFFormatError, PDFNotTaggedError, PDFPasswordError, PDFPermissionError, ResourceLimitError, StructureElementNotFoundError } from "./errors.ts";
+
+/** Process exit codes of the tagged-pdf-to-html command */
+export const EXIT_CODES = {
+    success: 0,
+    failure: 1,
+    usage: 2,
+    untagged: 3,
+    encrypted: 4,
+    permissionDenied: 5,
+    corrupt: 6,
+    limitExceeded: 7,
+    timeout: 8,
+    conversionErrors: 9
+} as const;
+
+export interface CliIO {
+    readStdin(): Promise<Uint8Array>;
+    writeStdout(data: string): Promise<void>;
+    writeStderr(text: string): void;
+}
+
+const USAGE = `Usage: tagged-pdf-to-html [options] [input.pdf]
+       tagged-pdf-to-html [options] <input-dir> --output <output-dir>
+
+Converts a tagged PDF to HTML. Reads from stdin when no input (or "-") is given
+and writes to stdout unless --output is set.
+
+Given a directory, converts every PDF below it into the same layout below the
+output directory and writes a JSON summary of the results.
+
+Options:
+  -o, --output <file>              Write the HTML to a file
+      --format <format>            html | markdown | text | json | jats | epub (default: html); EPUB needs --output
+      --filename <name>            Title used when the PDF has no dc:title (defaults to the input file name)
+      --password <password>        Password for encrypted PDFs
+      --permissions <policy>       enforce | warn | ignore (default: enforce)
+      --infer-structure            Infer structure from the page layout when the PDF is untagged
+      --pages <first[-last]>       Only convert these pages (1-based, inclusive)
+      --subtree <id>               Only convert the structure element with this id
+      --image-format <format>      auto | png | jpeg (default: auto)
+      --jpeg-quality <0-1>         JPEG quality (default: 0.9)
+      --no-scripts                 Omit scripts and the ECMAScript runtime
+      --safe                       Safe output for untrusted PDFs: no scripts, unsafe URLs or active embedded markup
+      --csp                        Emit a Content-Security-Policy meta element (implies --runtime strict)
+      --nonce <nonce>              Nonce for every script and style element
+      --runtime <variant>          eval | strict (default: eval); strict runs without eval
+      --no-associated-files        Ignore associated files
+      --no-structure-map           Omit the structure map JSON
+      --assets <dir>               Write images, associated files and fonts to this directory
+                                   (relative to the HTML) instead of inlining them; needs --output
+      --timeout <ms>               Abort the conversion after this many milliseconds
+      --max-pages <n>              Resource limits for untrusted input
+      --max-structure-elements <n>
+      --max-nesting-depth <n>
+      --max-image-pixels <n>
+      --max-output-bytes <n>
+      --max-associated-file-size <n>
+      --truncate                   Truncate output instead of failing when a limit is exceeded
+      --fail-on-error              Exit with code 9 when error diagnostics were reported
+      --concurrency <n>            Directory mode: files converted at the same time (default: 4)
+      --summary <file>             Directory mode: summary path (default: <output-dir>/summary.json)
+  -q, --quiet                      Don't print diagnostics
+  -h, --help                       Show this help
+
+Exit codes:
+  0 success, 1 conversion failed, 2 usage error, 3 untagged PDF, 4 encrypted PDF
+  (password missing or wrong), 5 permissions deny extraction, 6 corrupt PDF,
+  7 resource limit exceeded, 8 timed out, 9 error diagnostics (with --fail-on-error)
+  In directory mode: 1 if any file failed, otherwise 3 if any file was untagged.
+`;
+
+const OPTIONS = {
+    output: { type: "string", short: "o" },
+    format: { type: "string" },
+    filename: { type: "string" },
+    password: { type: "string" },
+    permissions: { type: "string" },
+    "infer-structure": { type: "boolean" },
+    pages: { type: "string" },
+    subtree: { type: "string" },
+    "image-format": { type: "string" },
+    "jpeg-quality": { type: "string" },
+    "no-scripts": { type: "boolean" },
+    safe: { type: "boolean" },
+    csp: { type: "boolean" },
+    nonce: { type: "string" },
+    runtime: { type: "string" },
+    "no-associated-files": { type: "boolean" },
+    "no-structure-map": { type: "boolean" },
+    assets: { type: "string" },
+    timeout: { type: "string" },
+    "max-pages": { type: "string" },
+    "max-structure-elements": { type: "string" },
+    "max-nesting-depth": { type: "string" },
+    "max-image-pixels": { type: "string" },
+    "max-output-bytes": { type: "string" },
+    "max-associated-file-size": { type: "string" },
+    truncate: { type: "boolean" },
+    "fail-on-error": { type: "boolean" },
+    concurrency: { type: "string" },
+    summary: { type: "string" },
+    quiet: { type: "boolean", short: "q" },
+    help: { type: "boolean", short: "h" }
+} as const;
+
+const LIMIT_FLAGS: Record<string, keyof ResourceLimits> = {
+    "max-pages": "maxPages",
+    "max-structure-elements": "maxStructureElements",
+    "max-nesting-depth": "maxNestingDepth",
+    "max-image-pixels": "maxImagePixels",
+    "max-output-bytes": "maxOutputBytes",
+    "max-associated-file-size": "maxAssociatedFileSize"
+};
+
+type OutputFormat = "html" | "markdown" | "text" | "json" | "jats" | "epub";
+
+export const defaultCliIO: CliIO = {
+    async readStdin() {
+        const chunks: Buffer[] = [];
+        for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+        return new Uint8Array(Buffer.concat(chunks));
+    },
+    writeStdout(data) {
+        return new Promise((resolve, reject) => {
+            process.stdout.write(data, (error) => (error ? reject(error) : resolve()));
+        });
+    },
+    writeStderr(text) {
+        process.stderr.write(text);
+    }
+};
+
+/** Runs the command with the given arguments and resolves to its exit code */
+export async function runCli(args: string[], io: CliIO = defaultCliIO): Promise<number> {
+    let values: ReturnType<typeof parseCliArgs>["values"];
+    let input: string | undefined;
+    let options: ConversionOptions;
+    let format: OutputFormat;
+    try {
+        ({ values, input } = parseCliArgs(args));
+        if (values.help) {
+            await io.writeStdout(USAGE);
+            return EXIT_CODES.success;
+        }
+        options = getConversionOptions(values, input);
+        format = values.format === undefined ? "html" : parseChoice<OutputFormat>("--format", values.format, ["html", "markdown", "text", "json", "jats", "epub"]);
+    } catch (e) {
+        io.writeStderr(`tagged-pdf-to-html: ${e instanceof Error ? e.message : String(e)}\n\n${USAGE}`);
+        return EXIT_CODES.usage;
+    }
+
+    if (input !== undefined && input !== "-" && await isDirectory(input)) {
+        if (!values.output) {
+            io.writeStderr(`tagged-pdf-to-html: --output is required when converting a directory\n\n${USAGE}`);
+            return EXIT_CODES.usage;
+        }
+        if (format !== "html") {
+            io.writeStderr(`tagged-pdf-to-html: --format ${format} is not supported when converting a directory\n`);
+            return EXIT_CODES.usage;
+        }
+        let concurrency: number | undefined;
+        try {
+            concurrency = values.concurrency === undefined ? undefined : parsePositiveInteger("--concurrency", values.concurrency);
+        } catch (e) {
+            io.writeStderr(`tagged-pdf-to-html: ${e instanceof Error ? e.message : String(e)}\n`);
+            return EXIT_CODES.usage;
+        }
+        // Each file's own name is the title fallback unless --filename was given
+        return runBatch(input, values.output, { ...options, filename: values.filename }, {
+            concurrency,
+            summaryPath: values.summary,
+            quiet: !!values.quiet,
+            failOnError: !!values["fail-on-error"]
+        }, io);
+    }
+
+    if (options.assets && !values.output) {
+        io.writeStderr(`tagged-pdf-to-html: --assets requires --output\n\n${USAGE}`);
+        return EXIT_CODES.usage;
+    }
+    if (format === "epub" && !values.output) {
+        io.writeStderr(`tagged-pdf-to-html: --format epub requires --output\n\n${USAGE}`);
+        return EXIT_CODES.usage;
+    }
+
+    let data: Uint8Array;
+    try {
+        data = input === undefined || input === "-"
+            ? await io.readStdin()
+            : new Uint8Array(await fs.readFile(input));
+    } catch (e) {
+        io.writeStderr(`tagged-pdf-to-html: cannot read ${input ?? "stdin"}: ${e instanceof Error ? e.message : String(e)}\n`);
+        return EXIT_CODES.usage;
+    }
+
+    try {
+        let diagnostics: Diagnostic[];
+        if (format === "epub") {
+            const result = await deriveEpubFromPdf(data, options);
+            await fs.writeFile(values.output!, result.epub);
+            diagnostics = result.diagnostics;
+        } else {
+            let output: string;
+            let assets: AssetMap;
+            if (format === "markdown") {
+                ({ markdown: output, assets, diagnostics } = await deriveMarkdownFromPdf(data, options));
+            } else if (format === "text") {
+                ({ text: output, diagnostics } = await deriveTextFromPdf(data, options));
+                assets = {};
+            } else if (format === "json") {
+                const result = await deriveDocumentModelFromPdf(data, options);
+                ({ assets, diagnostics } = result);
+                output = JSON.stringify(result.model, null, 2) + "\n";
+            } else if (format === "jats") {
+                ({ jats: output, assets, diagnostics } = await deriveJatsFromPdf(data, options));
+            } else {
+                ({ html: output, assets, diagnostics } = options.assets
+                    ? await deriveHtmlWithAssets(data, options)
+                    : { ...await deriveHtmlWithDiagnostics(data, options), assets: {} });
+            }
+            if (values.output) {
+                await fs.writeFile(values.output, output);
+                await writeAssets(path.dirname(values.output), assets);
+            } else {
+                await io.writeStdout(output);
+            }
+        }
+        if (!values.quiet) {
+            for (const diagnostic of diagnostics) io.writeStderr(formatDiagnostic(diagnostic) + "\n");
+        }
+        if (values["fail-on-error"] && diagnostics.some((diagnostic) => diagnostic.severity === "error")) {
+            return EXIT_CODES.conversionErrors;
+        }
+        return EXIT_CODES.success;
+    } catch (e) {
+        io.writeStderr(`tagged-pdf-to-html: ${e instanceof Error ? e.message : String(e)}\n`);
+        return getExitCode(e);
+    }
+}
+
+async function runBatch(
+    inputDir: string,
+    outputDir: string,
+    conversion: ConversionOptions,
+    settings: { concurrency?: number; summaryPath?: string; quiet: boolean; failOnError: boolean },
+    io: CliIO
+): Promise<number> {
+    const report = (file: BatchFileResult) => {
+        const counts = `${file.durationMs} ms, ${file.warnings} warnings, ${file.errors} errors`;
+        io.writeStderr(`${file.status.padEnd(8)} ${file.input} (${file.message ? `${file.message}; ` : ""}${counts})\n`);
+        if (!settings.quiet) {
+            for (const diagnostic of file.diagnostics) io.writeStderr(`  ${formatDiagnostic(diagnostic)}\n`);
+        }
+    };
+
+    try {
+        const summary = await convertDirectory(inputDir, outputDir, {
+            conversion,
+            concurrency: settings.concurrency,
+            summaryPath: settings.summaryPath,
+            onFile: report
+        });
+        io.writeStderr(`${summary.total} files: ${summary.succeeded} converted, ${summary.untagged} untagged, ${summary.failed} failed (${summary.durationMs} ms)\n`);
+        if (summary.failed > 0) return EXIT_CODES.failure;
+        if (summary.untagged > 0) return EXIT_CODES.untagged;
+        if (settings.failOnError && summary.files.some((file) => file.errors > 0)) return EXIT_CODES.conversionErrors;
+        return EXIT_CODES.success;
+    } catch (e) {
+        io.writeStderr(`tagged-pdf-to-html: ${e instanceof Error ? e.message : String(e)}\n`);
+        return EXIT_CODES.failure;
+    }
+}
+
+async function isDirectory(input: string): Promise<boolean> {
+    try {
+        return (await fs.stat(input)).isDirectory();
+    } catch {
+        return false;
+    }
+}
+
+function parseCliArgs(args: string[]) {
+    const { values, positionals } = parseArgs({ args, options: OPTIONS, allowPositionals: true });
+    if (positionals.length > 1) {
+        throw new Error("Expected at most one input file.");
+    }
+    return { values, input: positionals[0] as string | undefined };
+}
+
+function getConversionOptions(values: ReturnType<typeof parseCliArgs>["values"], input: string | undefined): ConversionOptions {
+    const options: ConversionOptions = {
+        filename: values.filename ?? (input && input !== "-" ? path.basename(input) : undefined),
+        password: values.password,
+        inferStructure: values["infer-structure"],
+        subtreeId: values.subtree,
+        includeScripts: values["no-scripts"] ? false : undefined,
+        safeMode: values.safe || undefined,
+        contentSecurityPolicy: values.csp || undefined,
+        nonce: values.nonce,
+        includeAssociatedFiles: values["no-associated-files"] ? false : undefined,
+        includeStructureMap: values["no-structure-map"] ? false : undefined,
+        onLimitExceeded: values.truncate ? "truncate" : undefined,
+        assets: values.assets !== undefined ? { directory: values.assets } : undefined
+    };
+
+    if (values.permissions !== undefined) {
+        options.permissions = parseChoice<PermissionPolicy>("--permissions", values.permissions, ["enforce", "warn", "ignore"]);
+    }
+    if (values.runtime !== undefined) {
+        options.scriptRuntime = parseChoice<ScriptRuntime>("--runtime", values.runtime, ["eval", "strict"]);
+    }
+    if (values["image-format"] !== undefined) {
+        options.imageFormat = parseChoice<ImageFormat>("--image-format", values["image-format"], ["auto", "png", "jpeg"]);
+    }
+    if (values["jpeg-quality"] !== undefined) {
+        const quality = Number(values["jpeg-quality"]);
+        if (!(quality >= 0 && quality <= 1)) throw new Error("--jpeg-quality must be between 0 and 1.");
+        options.jpegQuality = quality;
+    }
+    if (values.pages !== undefined) {
+        // 1-based on the command line, zero-based in ConversionOptions
+        const match = /^(\d+)(?:-(\d+))?$/.exec(values.pages);
+        const first = match ? parseInt(match[1], 10) : 0;
+        const last = match?.[2] ? parseInt(match[2], 10) : first;
+        if (!match || first < 1 || last < first) throw new Error("--pages must look like 3 or 3-7.");
+        options.pageRange = { first: first - 1, last: last - 1 };
+    }
+    if (values.timeout !== undefined) {
+        options.timeout = parsePositiveInteger("--timeout", values.timeout);
+    }
+
+    const limits: ResourceLimits = {};
+    for (const [flag, limit] of Object.entries(LIMIT_FLAGS)) {
+        const value = values[flag as keyof typeof values];
+        if (typeof value === "string") limits[limit] = parsePositiveInteger(`--${flag}`, value);
+    }
+    if (Object.keys(limits).length > 0) options.limits = limits;
+
+    return options;
+}
+
+function parseChoice<T extends string>(flag: string, value: string, choices: T[]): T {
+    if (!(choices as string[]).includes(value)) {
+        throw new Error(`${flag} must be one of ${choices.join(", ")}.`);
+    }
+    return value as T;
+}
+
+export function parsePositiveInteger(flag: string, value: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) throw new Error(`${flag} must be a positive integer.`);
+    return parsed;
+}
+
+function formatDiagnostic({ severity, code, message, elementId, pageIndex, objectRef }: Diagnostic): string {
+    const location: string[] = [];
+    if (elementId) location.push(`element ${elementId}`);
+    if (pageIndex !== undefined) location.push(`page ${pageIndex + 1}`);
+    if (objectRef) location.push(`object ${objectRef}`);
+    return `${severity} [${code}] ${message}${location.length > 0 ? ` (${location.join(", ")})` : ""}`;
+}
+
+function getExitCode(error: unknown): number {
+    if (error instanceof PDFNotTaggedError) return EXIT_CODES.untagged;
+    if (error instanceof PDFPasswordError) return EXIT_CODES.encrypted;
+    if (error instanceof PDFPermissionError) return EXIT_CODES.permissionDenied;
+    if (error instanceof PDFFormatError) return EXIT_CODES.corrupt;
+    if (error instanceof ResourceLimitError) return EXIT_CODES.limitExceeded;
+    if (error instanceof StructureElementNotFoundError) return EXIT_CODES.usage;
+    if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) return EXIT_CODES.timeout;
+    return EXIT_CODES.failure;
+}
@@ -1,8 +1,8 @@
 import { OPS } from "#pdfjs/shared/util.js";
-import type { PDFPage, PDFOperator, ExtractedImage, MarkedContentProps, ImageXObject } from "./types.ts";
+import type { PDFPage, PDFOperator, ExtractedImage, MarkedContentProps, ImageXObject, TextRun } from "./types.ts";
 
 // Re-export types for external use
-export type { ExtractedImage, MarkedContentProps };
+export type { ExtractedImage, MarkedContentProps, TextRun };
 
 /** Text item from text extraction */
 interface TextItem {
@@ -10,6 +10,10 @@ interface TextItem {
     id?: string;
     str?: string;
     hasEOL?: boolean;
+    transform?: number[];
+    width?: number;
+    height?: number;
+    fontName?: string;
 }
 
 /** Props from marked content - can be number (MCID) or object with properties */
@@ -26,10 +30,17 @@ export class ContentExtractor {
     private mcidToOps: Map<number, PDFOperator[]> = new Map();
     private mcidToProps: Map<number, MarkedContentProps> = new Map();
     private imageDataById: Map<string, unknown> = new Map();
+    private textRuns: TextRun[] = [];
     private pageIndex: number;
+    private recordLayout: boolean;
 
-    constructor(pageIndex: number) {
+    /**
+     * @param recordLayout Also keep positioned text runs for every text item,
+     *   marked or not (used to infer structure for untagged pages)
+     */
+    constructor(pageIndex: number, recordLayout: boolean = false) {
         this.pageIndex = pageIndex;
+        this.recordLayout = recordLayout;
     }
 
     async extract(page: PDFPage) {
@@ -88,6 +99,9 @@ export class ContentExtractor {
             } else if (item.str) {
                 const text = item.str;
                 const isWhitespaceOnly = text.trim() === "";
+                if (this.recordLayout && !isWhitespaceOnly) {
+                    this.recordTextRun(item);
+                }
                 const activeMcids = new Set<number>();
                 for (const entry of this.textStack) {
                     for (const mcid of entry.mcids) {
@@ -129,6 +143,19 @@ export class ContentExtractor {
         }
     }
 
+    private recordTextRun(item: TextItem) {
+        const transform = item.transform;
+        if (!transform || transform.length < 6) return;
+        this.textRuns.push({
+            text: item.str || "",
+            x: transform[4],
+            y: transform[5],
+            width: item.width || 0,
+            fontSize: item.height || Math.hypot(transform[2], transform[3]),
+            fontName: item.fontName
+        });
+    }
+
     private async extractOperators(page: PDFPage) {
         const masterFn: number[] = [];
         const masterArgs: unknown[] = [];
@@ -261,6 +288,11 @@ export class ContentExtractor {
         }
     }
 
+    // Positioned text runs in content stream order (only when recordLayout is set)
+    getTextRuns(): TextRun[] {
+        return this.textRuns;
+    }
+
     getText(mcid: number): string {
         return this.mcidToText.get(mcid) || "";
     }
@@ -0,0 +1,53 @@
+/**
+ * Content Security Policy support.
+ *
+ * Every script and style element the converter emits carries the caller's nonce, so
+ * the output can be served under a policy without 'unsafe-inline'. Markup copied
+ * verbatim from embedded HTML associated files is not rewritten and its scripts and
+ * styles are blocked by such a policy.
+ */
+
+import type { PDFContext } from "./pdf_js_context.ts";
+import type { ScriptRuntime } from "./conversion_options.ts";
+import type { HtmlProperties } from "./html_tree.ts";
+import { reportDiagnostic } from "./diagnostics.ts";
+
+/** Properties for a script or style element: the nonce, when one is set */
+export function nonceProperties(context: PDFContext, properties: HtmlProperties = {}): HtmlProperties {
+    const { nonce } = context.options;
+    return nonce ? { ...properties, nonce } : properties;
+}
+
+/** §11: Runtime variant; a policy without 'unsafe-eval' needs the strict one */
+export function getScriptRuntime(context: PDFContext): ScriptRuntime {
+    const { scriptRuntime, contentSecurityPolicy } = context.options;
+    return scriptRuntime ?? (contentSecurityPolicy ? "strict" : "eval");
+}
+
+/**
+ * Policy for the Content-Security-Policy meta element, or null when none is emitted.
+ *
+ * The derived policy allows same-origin and data: resources (images, fonts and asset
+ * files), scripts and style elements with the nonce, and style attributes, which
+ * carry the layout of many structure elements. Without a nonce, scripts are blocked.
+ */
+export function getContentSecurityPolicy(context: PDFContext): string | null {
+    const { contentSecurityPolicy, nonce, includeScripts } = context.options;
+    if (!contentSecurityPolicy) return null;
+    if (typeof contentSecurityPolicy === "string") return contentSecurityPolicy;
+
+    if (includeScripts && !nonce) {
+        reportDiagnostic(context, "warning", "scripts-blocked-by-csp",
+            "Scripts are blocked by the Content Security Policy because no nonce was given");
+    }
+    const source = nonce ? `'nonce-${nonce}'` : null;
+    return [
+        "default-src 'self' data:",
+        `script-src ${source ?? "'none'"}`,
+        `style-src 'self' ${source ?? "'unsafe-inline'"}`,
+        "style-src-attr 'unsafe-inline'",
+        "object-src 'none'",
+        "base-uri 'none'",
+        "form-action 'self'"
+    ].join("; ");
+}
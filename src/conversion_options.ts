@@ -0,0 +1,169 @@
+/** §9.3: Image encoding ("auto" picks JPEG for DCT-encoded images, PNG otherwise) */
+export type ImageFormat = "auto" | "png" | "jpeg";
+
+/**
+ * How to treat encryption permission flags that disallow content extraction:
+ * "enforce" refuses to convert, "warn" converts with a warning, "ignore" converts silently.
+ */
+export type PermissionPolicy = "enforce" | "warn" | "ignore";
+
+/**
+ * §11: ECMAScript runtime variant. "eval" runs string expressions passed to
+ * app.setTimeOut, app.setInterval and Field.setAction and calculate scripts with eval;
+ * "strict" only dispatches functions (calculate scripts are compiled into the widget
+ * scripts), so it runs under a Content Security Policy without 'unsafe-eval'.
+ */
+export type ScriptRuntime = "eval" | "strict";
+
+import type { Diagnostic } from "./diagnostics.ts";
+import type { AssetOptions } from "./assets.ts";
+import type { UrlPolicy } from "./url_policy.ts";
+
+/** Inclusive range of zero-based page indices */
+export interface PageRange {
+    first: number;
+    last: number;
+}
+
+/**
+ * §14.2: Resource constraints for untrusted input. Unset limits are unbounded.
+ */
+export interface ResourceLimits {
+    /** Pages in the document */
+    maxPages?: number;
+    /** Structure elements rendered */
+    maxStructureElements?: number;
+    /** Depth of nested structure elements */
+    maxNestingDepth?: number;
+    /** Width × height of a single decoded image */
+    maxImagePixels?: number;
+    /** UTF-8 bytes of rendered page content (text, images and graphics; markup is not counted) */
+    maxOutputBytes?: number;
+    /** Decoded size in bytes of a single embedded associated file */
+    maxAssociatedFileSize?: number;
+}
+
+/**
+ * What happens when a resource limit is exceeded: "error" rejects with a ResourceLimitError,
+ * "truncate" skips the remaining work and leaves a marker comment in the output.
+ */
+export type LimitPolicy = "error" | "truncate";
+
+/** Snapshot passed to `ConversionOptions.onProgress` */
+export interface ConversionProgress {
+    /** Pages whose content streams have been extracted so far */
+    pagesExtracted: number;
+    /** Number of pages in the document */
+    totalPages: number;
+    /** Structure elements rendered so far */
+    elementsEmitted: number;
+}
+
+/**
+ * Per-call options for the conversion entry points.
+ * Every subsystem is enabled by default; set a flag to `false` to switch it off.
+ */
+export interface ConversionOptions {
+    /** File name used for the <title> when the PDF has no XMP dc:title or Info Title, or DisplayDocTitle is false */
+    filename?: string;
+    /** §11: Emit document, page and widget scripts, JavaScript associated files and the ECMAScript runtime */
+    includeScripts?: boolean;
+    /** §4.6: Process associated files in the head and on structure elements */
+    includeAssociatedFiles?: boolean;
+    /** Embed the structure map JSON used for cross-view synchronization */
+    includeStructureMap?: boolean;
+    /** §9.3: Encoding for images emitted as data URIs or asset files */
+    imageFormat?: ImageFormat;
+    /** JPEG quality between 0 and 1 */
+    jpegQuality?: number;
+    /** User or owner password for encrypted PDFs */
+    password?: string;
+    /** Handling of the Encrypt dictionary's permission flags (P) */
+    permissions?: PermissionPolicy;
+    /** Build a heuristic structure from page layout when the PDF is not tagged */
+    inferStructure?: boolean;
+    /** Only convert content on these pages (zero-based page indices, inclusive) */
+    pageRange?: PageRange;
+    /** Only convert the subtree rooted at this structure element (IDTree ID or generated pdf-se-* id) */
+    subtreeId?: string;
+    /** Aborts the conversion; the entry point rejects with the signal's reason */
+    signal?: AbortSignal;
+    /** Abort the conversion after this many milliseconds */
+    timeout?: number;
+    /** Called as pages are extracted and structure elements are rendered */
+    onProgress?: (progress: ConversionProgress) => void;
+    /** §14.2: Resource constraints for untrusted input */
+    limits?: ResourceLimits;
+    /** Handling of exceeded resource limits */
+    onLimitExceeded?: LimitPolicy;
+    /** Called as each diagnostic is reported (they are also returned with the result) */
+    onDiagnostic?: (diagnostic: Diagnostic) => void;
+    /** Write images and embedded associated files to separate files instead of inlining them */
+    assets?: AssetOptions;
+    /**
+     * §14.2: Output for untrusted PDFs: no scripts (overrides `includeScripts`), no event
+     * handlers, only safe URL schemes, and embedded HTML, SVG and MathML filtered against
+     * an element and attribute allowlist
+     */
+    safeMode?: boolean;
+    /** Nonce attribute for every emitted script and style element */
+    nonce?: string;
+    /**
+     * Emit a Content-Security-Policy meta element: `true` derives a policy from the
+     * nonce, a string is used as the policy
+     */
+    contentSecurityPolicy?: boolean | string;
+    /** ECMAScript runtime variant (default: "strict" with `contentSecurityPolicy`, "eval" otherwise) */
+    scriptRuntime?: ScriptRuntime;
+    /** Allowlist and rewrite hook for link targets and associated files referenced by URL */
+    urlPolicy?: UrlPolicy;
+    /** Also describe the document as schema.org JSON-LD in the head (default: false) */
+    jsonLd?: boolean;
+}
+
+/** Conversion options with defaults applied */
+export interface ResolvedConversionOptions extends ConversionOptions {
+    filename: string;
+    includeScripts: boolean;
+    includeAssociatedFiles: boolean;
+    includeStructureMap: boolean;
+    imageFormat: ImageFormat;
+    jpegQuality: number;
+    password: string;
+    permissions: PermissionPolicy;
+    inferStructure: boolean;
+    limits: ResourceLimits;
+    onLimitExceeded: LimitPolicy;
+    safeMode: boolean;
+}
+
+export const DEFAULT_CONVERSION_OPTIONS: ResolvedConversionOptions = {
+    filename: "document.pdf",
+    includeScripts: true,
+    includeAssociatedFiles: true,
+    includeStructureMap: true,
+    imageFormat: "auto",
+    jpegQuality: 0.9,
+    password: "",
+    permissions: "enforce",
+    inferStructure: false,
+    limits: {},
+    onLimitExceeded: "error",
+    safeMode: false
+};
+
+export function resolveConversionOptions(options: ConversionOptions = {}): ResolvedConversionOptions {
+    const resolved: ResolvedConversionOptions = { ...DEFAULT_CONVERSION_OPTIONS };
+    // Ignore explicit undefined values so they don't clobber defaults
+    for (const [key, value] of Object.entries(options)) {
+        if (value !== undefined) {
+            (resolved as unknown as Record<string, unknown>)[key] = value;
+        }
+    }
+    if (resolved.safeMode) resolved.includeScripts = false;
+    // The nonce ends up in the policy, so it's limited to base64 characters
+    if (resolved.nonce !== undefined && !/^[A-Za-z0-9+/_-]+={0,2}$/.test(resolved.nonce)) {
+        throw new Error("nonce must be a base64 string.");
+    }
+    return resolved;
+}
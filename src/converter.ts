@@ -1,77 +1,370 @@
 
 import { PDFContext } from "./pdf_js_context.ts";
 import { traverseStructure, StructureMap } from "./structure_traversal.ts";
+import type { SerializableStructTreeElement, SerializableStructTreeNode } from "./structure_traversal.ts";
 import { generateCSS } from "./css_generator.ts";
-import { MetadataParser } from "#pdfjs/core/metadata_parser.js";
 import { processHeadAssociatedFiles } from "./associated_files.ts";
 import { Dict } from "#pdfjs/core/primitives.js";
 import { stringToPDFString } from "#pdfjs/shared/util.js";
+import { resolveConversionOptions } from "./conversion_options.ts";
+import type { ConversionOptions, ScriptRuntime } from "./conversion_options.ts";
+import { beginConversion, checkAborted } from "./progress.ts";
+import { getProcessedPageCount } from "./resource_limits.ts";
+import { reportDiagnostic } from "./diagnostics.ts";
+import type { Diagnostic } from "./diagnostics.ts";
+import { closeTag, h, openTag, text, toHtml } from "./html_tree.ts";
+import type { HtmlContent, HtmlElement, HtmlProperties, HtmlRoot } from "./html_tree.ts";
+import { getAssetMap } from "./assets.ts";
+import type { AssetMap } from "./assets.ts";
+import { getDocumentMetadata, getDocumentTitle } from "./metadata.ts";
+import { isSafeCss, sanitizeCss } from "./sanitizer.ts";
+import { getDocumentDirection, getViewerPreferences } from "./viewer_preferences.ts";
+import { getContentSecurityPolicy, getScriptRuntime, nonceProperties } from "./content_security_policy.ts";
+
+/** Structure map as embedded in the HTML: element id → MCIDs (p{refNum}R_mc{mcid}) and page index */
+export type SerializedStructureMap = Record<string, { mcids: string[]; page: number }>;
 
 /** Serialize StructureMap to JSON-compatible object */
-function serializeStructureMap(structureMap: StructureMap): Record<string, { mcids: string[]; page: number }> {
-    const result: Record<string, { mcids: string[]; page: number }> = {};
+function serializeStructureMap(structureMap: StructureMap): SerializedStructureMap {
+    const result: SerializedStructureMap = {};
     for (const [elementId, mapping] of structureMap) {
         result[elementId] = { mcids: mapping.mcids, page: mapping.page };
     }
     return result;
 }
 
-export async function convertToHTML(context: PDFContext): Promise<string> {
-    const { structTreeRoot, rootDict } = context;
+export interface HtmlWithDiagnostics {
+    html: string;
+    /** Problems found during conversion, in the order they were reported */
+    diagnostics: Diagnostic[];
+}
+
+export interface HtmlWithAssets extends HtmlWithDiagnostics {
+    /** Files referenced by the HTML when the `assets` option is set (empty otherwise) */
+    assets: AssetMap;
+}
+
+export interface HtmlWithStructureTree extends HtmlWithAssets {
+    structureTree: SerializableStructTreeElement;
+    structureMap: SerializedStructureMap;
+}
+
+export interface HtmlTreeWithStructureTree {
+    tree: HtmlRoot;
+    structureTree: SerializableStructTreeElement;
+    structureMap: SerializedStructureMap;
+    assets: AssetMap;
+    diagnostics: Diagnostic[];
+}
+
+export async function convertToHTML(context: PDFContext, options?: ConversionOptions): Promise<string> {
+    const { html } = await convertToHTMLWithStructureTree(context, options);
+    return html;
+}
+
+// Same as convertToHTML, also returning the structure tree built by the traversal
+export async function convertToHTMLWithStructureTree(
+    context: PDFContext,
+    options?: ConversionOptions
+): Promise<HtmlWithStructureTree> {
+    const { tree, ...rest } = await convertToHTMLTree(context, options);
+    return { html: toHtml(tree), ...rest };
+}
+
+// The document as an element tree; convertToHTML serializes this tree
+export async function convertToHTMLTree(
+    context: PDFContext,
+    options?: ConversionOptions
+): Promise<HtmlTreeWithStructureTree> {
+    applyOptions(context, options);
+
+    const document = createDocument(context, await renderHead(context));
+
+    // 4.3 Structure Elements
+    // Note: Form fields are generated as individual controls during structure traversal
+    // They function correctly without a global form wrapper (HTML5 allows standalone controls)
+    const { nodes, structureMap, structureTree } = await traverseStructure(context);
+    document.body.children.push(...nodes, ...renderTail(context, structureMap));
+
+    return {
+        tree: document.root,
+        structureTree,
+        structureMap: serializeStructureMap(structureMap),
+        assets: getAssetMap(context),
+        diagnostics: [...context.diagnostics]
+    };
+}
+
+export interface StructureTreeWithText {
+    structureTree: SerializableStructTreeElement;
+    /** Text rendered for each structure tree node, with ActualText applied */
+    textByNode: WeakMap<SerializableStructTreeNode, string>;
+    diagnostics: Diagnostic[];
+}
+
+// The traversal without building the HTML document, for text renditions
+export async function convertToStructureText(
+    context: PDFContext,
+    options?: ConversionOptions
+): Promise<StructureTreeWithText> {
+    applyOptions(context, options);
+    const { structureTree, textByNode } = await traverseStructure(context);
+    return { structureTree, textByNode, diagnostics: [...context.diagnostics] };
+}
+
+/**
+ * Streaming variant of convertToHTML for large documents.
+ * Yields the head first, then body content as the traversal renders each
+ * top-level element (descending into grouping elements such as Document and Sect),
+ * and finally the structure map and closing tags.
+ */
+export async function* convertToHTMLStream(
+    context: PDFContext,
+    options?: ConversionOptions
+): AsyncGenerator<string, void, undefined> {
+    applyOptions(context, options);
+
+    // The document skeleton is serialized around the streamed body content
+    const document = createDocument(context, await renderHead(context));
+    const { html, head, body } = document;
+    yield `${toHtml(document.root.children.slice(0, -1))}${openTag(html)}\n${toHtml(head)}\n${openTag(body)}\n`;
+
+    const channel = new ChunkChannel();
+    const traversal = traverseStructure(context, (chunk) => channel.push(chunk))
+        .finally(() => channel.close());
+    // Errors are rethrown when the traversal is awaited below
+    traversal.catch(() => {});
+
+    try {
+        yield* channel;
+    } finally {
+        // Stops the traversal when the consumer returns early
+        channel.cancel();
+    }
+    const { structureMap } = await traversal;
+    yield `${toHtml(renderTail(context, structureMap))}${closeTag(body)}\n${closeTag(html)}`;
+}
+
+// Per-call options override those the context was created with, for this call only
+function applyOptions(context: PDFContext, options?: ConversionOptions): void {
+    context.options = options
+        ? resolveConversionOptions({ ...context.baseOptions, ...options })
+        : context.baseOptions;
+    beginConversion(context);
+}
+
+interface DocumentSkeleton {
+    root: HtmlRoot;
+    html: HtmlElement;
+    head: HtmlElement;
+    body: HtmlElement;
+}
 
-    // 4.2.1 HTML
+// 4.2.1 HTML: doctype, html element with the document language, head and an empty body
+function createDocument(context: PDFContext, head: HtmlElement): DocumentSkeleton {
+    const properties: HtmlProperties = {};
     // Lang
-    const lang = rootDict.get("Lang");
-    let htmlAttrs = "";
+    const lang = context.rootDict.get("Lang");
     if (lang) {
         // Lang can be Name or String
-        const langStr = typeof lang === 'string' ? lang : (lang.name || "");
-        htmlAttrs += ` lang="${escapeHtml(langStr)}"`;
+        properties.lang = typeof lang === 'string' ? lang : (lang.name || "");
+    }
+    // §12.2: ViewerPreferences Direction, or the direction of the document language
+    if (getDocumentDirection(context) === "rtl") {
+        properties.dir = "rtl";
     }
 
-    // 4.2.1 Head
-    let html = `<!DOCTYPE html>\n<html${htmlAttrs}>\n<head>\n`;
+    // 4.2.4 Body
+    const body = h("body", {}, [text("\n")]);
+    const html = h("html", properties, [text("\n"), head, text("\n"), body, text("\n")]);
+    const root: HtmlRoot = { type: "root", children: [{ type: "doctype" }, text("\n"), html] };
+    return { root, html, head, body };
+}
 
-    // Title
-    let title = "";
-    // XMP Metadata
-    const metadataStream = rootDict.get("Metadata");
-    if (metadataStream && typeof metadataStream.getString === 'function') {
-        try {
-             const data = metadataStream.getString();
-             if (data) {
-                 const parser = new MetadataParser(data);
-                 const dcTitle = parser.serializable.parsedData.get("dc:title");
-                 if (dcTitle) title = dcTitle;
-             }
-        } catch (e) {
-            console.warn("Failed to parse XMP metadata", e);
-        }
+// 4.2.1 Head
+async function renderHead(context: PDFContext): Promise<HtmlElement> {
+    const { structTreeRoot } = context;
+    const head = h("head", {}, [text("\n")]);
+    const append = (node: HtmlContent) => head.children.push(node, text("\n"));
+
+    // Title from the XMP metadata, or the file name when DisplayDocTitle is false (§12.2)
+    const title = getViewerPreferences(context).displayDocTitle === false
+        ? context.options.filename
+        : getDocumentTitle(context);
+
+    append(h("title", {}, [text(title)]));
+    append(h("meta", { charset: "utf-8" }));
+    // Before any script or style element, which it applies to
+    const policy = getContentSecurityPolicy(context);
+    if (policy) {
+        append(h("meta", { "http-equiv": "Content-Security-Policy", content: policy }));
     }
-
-    if (!title) {
-        title = context.filename || "PDF Document";
+    append(h("meta", { name: "viewport", content: "width=device-width, initial-scale=1" }));
+    if (context.structureInferred) {
+        append(h("meta", { name: "pdf-structure", content: "inferred" }));
     }
-
-    html += `<title>${escapeHtml(title)}</title>\n`;
-    html += `<meta charset="utf-8">\n`;
-    html += `<meta name="viewport" content="width=device-width, initial-scale=1">\n`;
+    renderMetadata(context).forEach(append);
 
     // 4.2.2 Associated Files in Head
-    const headAF = await processHeadAssociatedFiles(context);
-    if (headAF) {
-        html += headAF;
+    if (context.options.includeAssociatedFiles) {
+        head.children.push(...await processHeadAssociatedFiles(context));
     }
 
-    // 4.2.3 ClassMap -> CSS
+    // §14.2: Safe mode keeps CSS built from PDF names and attribute values inside the style element
+    const styleText = (css: string) => text(`\n${context.options.safeMode ? sanitizeCss(css) : css}\n`);
+
+    // 4.2.3 ClassMap -> CSS; in safe mode, left out when it loads resources or runs script
     const css = generateCSS(structTreeRoot);
-    if (css) {
-        html += `<style>\n${css}\n</style>\n`;
+    if (css && (!context.options.safeMode || isSafeCss(css))) {
+        append(h("style", nonceProperties(context), [styleText(css)]));
     }
 
 
     // 11. ECMAScript Runtime
+    if (context.options.includeScripts) {
+        const docScripts = await extractDocumentScripts(context);
+        const runtime = renderRuntimeScript(getScriptRuntime(context));
+        append(h("script", nonceProperties(context), [text(`\n${docScripts}\n${runtime}\n`)]));
+    }
+
+    return head;
+}
+
+const DC_ELEMENTS = "http://purl.org/dc/elements/1.1/";
+const DC_TERMS = "http://purl.org/dc/terms/";
+
+// XMP and Info dictionary metadata as meta elements, Dublin Core and optionally schema.org JSON-LD
+function renderMetadata(context: PDFContext): HtmlContent[] {
+    const metadata = getDocumentMetadata(context);
+    const nodes: HtmlContent[] = [];
+    const meta = (name: string, content: string | undefined) => {
+        if (content) nodes.push(h("meta", { name, content }));
+    };
+
+    for (const creator of metadata.creators) meta("author", creator);
+    meta("description", metadata.description);
+    const keywords = [...new Set([...metadata.subjects, ...metadata.keywords])];
+    if (keywords.length > 0) meta("keywords", keywords.join(", "));
+    meta("pdf-producer", metadata.producer);
+    if (metadata.pdfUAPart) meta("pdf-ua-part", String(metadata.pdfUAPart));
+
+    // Dublin Core in HTML (DC-HTML), declared only when the document has some
+    const dublinCore = nodes.length;
+    meta("DC.title", metadata.title);
+    for (const creator of metadata.creators) meta("DC.creator", creator);
+    for (const subject of keywords) meta("DC.subject", subject);
+    meta("DC.description", metadata.description);
+    meta("DC.publisher", metadata.publisher);
+    meta("DC.rights", metadata.rights);
+    meta("DC.identifier", metadata.identifier);
+    meta("DC.language", metadata.language);
+    if (nodes.length > dublinCore) {
+        nodes.splice(dublinCore, 0, h("link", { rel: "schema.DC", href: DC_ELEMENTS }));
+        meta("DC.format", "text/html");
+    }
+    if (metadata.created || metadata.modified) {
+        nodes.push(h("link", { rel: "schema.DCTERMS", href: DC_TERMS }));
+        meta("DCTERMS.created", metadata.created);
+        meta("DCTERMS.modified", metadata.modified);
+    }
+
+    if (context.options.jsonLd) {
+        const description: Record<string, unknown> = {
+            "@context": "https://schema.org",
+            "@type": "DigitalDocument",
+            name: getDocumentTitle(context),
+            author: metadata.creators.length > 0 ? metadata.creators.map((name) => ({ "@type": "Person", name })) : undefined,
+            description: metadata.description,
+            keywords: keywords.length > 0 ? keywords.join(", ") : undefined,
+            inLanguage: metadata.language,
+            publisher: metadata.publisher ? { "@type": "Organization", name: metadata.publisher } : undefined,
+            copyrightNotice: metadata.rights,
+            identifier: metadata.identifier,
+            dateCreated: metadata.created,
+            dateModified: metadata.modified
+        };
+        // "<" is escaped so that metadata values can't end the script element
+        const json = JSON.stringify(description, null, 2).replace(/</g, "\\u003c");
+        nodes.push(h("script", nonceProperties(context, { type: "application/ld+json" }), [text(`\n${json}\n`)]));
+    }
+    return nodes;
+}
+
+// Body content after the structure: the embedded structure map
+function renderTail(context: PDFContext, structureMap: StructureMap): HtmlContent[] {
+    // Embed structure map as JSON for cross-view synchronization
+    // This maps structure element IDs to their associated MCIDs and page numbers
+    if (!context.options.includeStructureMap || structureMap.size === 0) return [];
+
+    // "<" is escaped so that ids from the PDF can't end the script element
+    const serializedMap = JSON.stringify(serializeStructureMap(structureMap)).replace(/</g, "\\u003c");
+    return [
+        text("\n"),
+        h("script", nonceProperties(context, { type: "application/json", id: "pdf-structure-map" }), [text(`\n${serializedMap}\n`)]),
+        text("\n")
+    ];
+}
+
+/**
+ * Bridges the traversal's push-style sink to a pull-style async iterator.
+ * A push resolves once the consumer has taken the chunk, so the traversal
+ * never runs ahead of the consumer by more than one chunk.
+ */
+class ChunkChannel implements AsyncIterable<string> {
+    private pending: { chunk: string; taken: () => void; cancelled: (reason: Error) => void }[] = [];
+    private notify: (() => void) | null = null;
+    private closed = false;
+    private cancelled = false;
+
+    push(chunk: string): Promise<void> {
+        if (this.cancelled) return Promise.reject(new Error("HTML stream was cancelled."));
+        return new Promise((resolve, reject) => {
+            this.pending.push({ chunk, taken: resolve, cancelled: reject });
+            this.wake();
+        });
+    }
+
+    close(): void {
+        this.closed = true;
+        this.wake();
+    }
+
+    cancel(): void {
+        this.cancelled = true;
+        for (const entry of this.pending.splice(0)) {
+            entry.cancelled(new Error("HTML stream was cancelled."));
+        }
+    }
+
+    private wake(): void {
+        const notify = this.notify;
+        this.notify = null;
+        notify?.();
+    }
+
+    async *[Symbol.asyncIterator](): AsyncGenerator<string, void, undefined> {
+        while (true) {
+            const next = this.pending.shift();
+            if (next) {
+                try {
+                    yield next.chunk;
+                } finally {
+                    next.taken();
+                }
+                continue;
+            }
+            if (this.closed) return;
+            await new Promise<void>((resolve) => {
+                this.notify = resolve;
+            });
+        }
+    }
+}
+
+// §11: Collect document-level, OpenAction and page open/close scripts
+async function extractDocumentScripts(context: PDFContext): Promise<string> {
     // Extract Document Level Scripts
+    const { rootDict } = context;
     const names = rootDict.get("Names");
     let docScripts = "";
     if (names && names instanceof Dict) {
@@ -109,10 +402,11 @@ export async function convertToHTML(context: PDFContext): Promise<string> {
     }
 
     // §11.2: Extract page-level scripts from Page/AA dictionaries
-    const numPages = context.pdfDocument.numPages ?? 0;
-    for (let i = 1; i <= numPages; i++) {
+    const numPages = getProcessedPageCount(context);
+    for (let pageIndex = 0; pageIndex < numPages; pageIndex++) {
+        checkAborted(context);
         try {
-            const page = await context.pdfDocument.getPage(i);
+            const page = await context.pdfDocument.getPage(pageIndex);
             const pageDict = page.pageDict;
 
             if (pageDict) {
@@ -125,7 +419,7 @@ export async function convertToHTML(context: PDFContext): Promise<string> {
                         if (act instanceof Dict && act.get("S")?.name === "JavaScript") {
                             const js = act.get("JS");
                             if (js) {
-                                docScripts += `// Page ${i} Open Action\n${stringToPDFString(js)}\n\n`;
+                                docScripts += `// Page ${pageIndex + 1} Open Action\n${stringToPDFString(js)}\n\n`;
                             }
                         }
                     }
@@ -137,7 +431,7 @@ export async function convertToHTML(context: PDFContext): Promise<string> {
                         if (act instanceof Dict && act.get("S")?.name === "JavaScript") {
                             const js = act.get("JS");
                             if (js) {
-                                docScripts += `// Page ${i} Close Action\n${stringToPDFString(js)}\n\n`;
+                                docScripts += `// Page ${pageIndex + 1} Close Action\n${stringToPDFString(js)}\n\n`;
                             }
                         }
                     }
@@ -150,11 +444,104 @@ export async function convertToHTML(context: PDFContext): Promise<string> {
                 // Stop if the document reports fewer pages than numPages.
                 break;
             }
-            console.warn(`Failed to extract page ${i} scripts:`, e);
+            reportDiagnostic(context, "warning", "page-scripts-failed", `Failed to extract page ${pageIndex + 1} scripts`, { pageIndex }, e);
         }
     }
 
-    const runtimeScript = `
+    return docScripts;
+}
+
+// The strict runtime never evaluates strings: timers and actions take functions, and
+// calculate scripts are registered as functions by the widget scripts
+const EVAL_TIMERS = `setTimeOut: function(cExpr, nMilliseconds) {
+                return setTimeout(function() { eval(cExpr); }, nMilliseconds);
+            },`;
+
+const STRICT_TIMERS = `setTimeOut: function(cExpr, nMilliseconds) {
+                if (typeof cExpr !== "function") {
+                    console.warn("app.setTimeOut: string expressions are not supported by this runtime");
+                    return null;
+                }
+                return setTimeout(cExpr, nMilliseconds);
+            },`;
+
+const EVAL_INTERVAL = `setInterval: function(cExpr, nMilliseconds) {
+                return setInterval(function() { eval(cExpr); }, nMilliseconds);
+            },`;
+
+const STRICT_INTERVAL = `setInterval: function(cExpr, nMilliseconds) {
+                if (typeof cExpr !== "function") {
+                    console.warn("app.setInterval: string expressions are not supported by this runtime");
+                    return null;
+                }
+                return setInterval(cExpr, nMilliseconds);
+            },`;
+
+const EVAL_CALCULATE = `this.calculateNow = function() {
+                // Trigger calculate events for all calculated fields
+                var calcFields = document.querySelectorAll("[data-calculate]");
+                for (var i = 0; i < calcFields.length; i++) {
+                    var field = calcFields[i];
+                    var calcExpr = field.getAttribute("data-calculate");
+                    if (calcExpr) {
+                        try {
+                            var result = eval(calcExpr);
+                            if (result !== undefined) {
+                                field.value = result;
+                            }
+                        } catch (e) {
+                            console.error("Calculate error:", e);
+                        }
+                    }
+                }
+            };`;
+
+const STRICT_CALCULATE = `this.calculateNow = function() {
+                // Calculate scripts registered by the widget scripts, keyed by element id
+                var calculations = window.pdfCalculations || {};
+                for (var id in calculations) {
+                    var field = document.getElementById(id);
+                    if (!field) continue;
+                    window.event.target = new Field(field);
+                    window.event.type = "calculate";
+                    window.event.value = field.value;
+                    window.event.rc = true;
+                    try {
+                        var result = calculations[id](window.event);
+                        if (result !== undefined) {
+                            field.value = result;
+                        } else if (window.event.rc !== false) {
+                            field.value = window.event.value;
+                        }
+                    } catch (e) {
+                        console.error("Calculate error:", e);
+                    }
+                }
+            };`;
+
+const EVAL_ACTION = `self.element.addEventListener(htmlEvent, function(e) {
+                    try {
+                        eval(cScript);
+                    } catch (err) {
+                        console.error("Action error:", err);
+                    }
+                });`;
+
+const STRICT_ACTION = `if (typeof cScript !== "function") {
+                    console.warn("Field.setAction: string scripts are not supported by this runtime");
+                    return;
+                }
+                self.element.addEventListener(htmlEvent, function(e) {
+                    try {
+                        cScript.call(self, window.event);
+                    } catch (err) {
+                        console.error("Action error:", err);
+                    }
+                });`;
+
+function renderRuntimeScript(runtime: ScriptRuntime): string {
+    const strict = runtime === "strict";
+    return `
     // PDF ECMAScript Runtime (§11, Annex B)
     (function() {
         console.log("PDF-HTML Runtime Initialized");
@@ -187,17 +574,13 @@ export async function convertToHTML(context: PDFContext): Promise<string> {
                 }
             },
 
-            setTimeOut: function(cExpr, nMilliseconds) {
-                return setTimeout(function() { eval(cExpr); }, nMilliseconds);
-            },
+            ${strict ? STRICT_TIMERS : EVAL_TIMERS}
 
             clearTimeOut: function(oTime) {
                 clearTimeout(oTime);
             },
 
-            setInterval: function(cExpr, nMilliseconds) {
-                return setInterval(function() { eval(cExpr); }, nMilliseconds);
-            },
+            ${strict ? STRICT_INTERVAL : EVAL_INTERVAL}
 
             clearInterval: function(oInterval) {
                 clearInterval(oInterval);
@@ -238,24 +621,7 @@ export async function convertToHTML(context: PDFContext): Promise<string> {
                 }
             };
 
-            this.calculateNow = function() {
-                // Trigger calculate events for all calculated fields
-                var calcFields = document.querySelectorAll("[data-calculate]");
-                for (var i = 0; i < calcFields.length; i++) {
-                    var field = calcFields[i];
-                    var calcExpr = field.getAttribute("data-calculate");
-                    if (calcExpr) {
-                        try {
-                            var result = eval(calcExpr);
-                            if (result !== undefined) {
-                                field.value = result;
-                            }
-                        } catch (e) {
-                            console.error("Calculate error:", e);
-                        }
-                    }
-                }
-            };
+            ${strict ? STRICT_CALCULATE : EVAL_CALCULATE}
 
             this.print = function(bUI, nStart, nEnd, bSilent, bShrinkToFit, bPrintAsImage) {
                 window.print();
@@ -341,13 +707,7 @@ export async function convertToHTML(context: PDFContext): Promise<string> {
                 };
 
                 var htmlEvent = eventMap[cTrigger] || cTrigger.toLowerCase();
-                self.element.addEventListener(htmlEvent, function(e) {
-                    try {
-                        eval(cScript);
-                    } catch (err) {
-                        console.error("Action error:", err);
-                    }
-                });
+                ${strict ? STRICT_ACTION : EVAL_ACTION}
             };
         };
 
@@ -401,38 +761,4 @@ export async function convertToHTML(context: PDFContext): Promise<string> {
         });
     })();
     `;
-    html += `<script>\n${docScripts}\n${runtimeScript}\n</script>\n`;
-
-    html += `</head>\n`;
-
-    // 4.2.4 Body
-    html += `<body>\n`;
-
-    // 4.3 Structure Elements
-    // Note: Form fields are generated as individual controls during structure traversal
-    // They function correctly without a global form wrapper (HTML5 allows standalone controls)
-    const { html: bodyContent, structureMap } = await traverseStructure(context);
-    html += bodyContent;
-
-    // Embed structure map as JSON for cross-view synchronization
-    // This maps structure element IDs to their associated MCIDs and page numbers
-    if (structureMap.size > 0) {
-        const serializedMap = serializeStructureMap(structureMap);
-        html += `\n<script type="application/json" id="pdf-structure-map">\n`;
-        html += JSON.stringify(serializedMap);
-        html += `\n</script>\n`;
-    }
-
-    html += `</body>\n</html>`;
-
-    return html;
-}
-
-function escapeHtml(unsafe: string): string {
-    return unsafe
-         .replace(/&/g, "&amp;")
-         .replace(/</g, "&lt;")
-         .replace(/>/g, "&gt;")
-         .replace(/"/g, "&quot;")
-         .replace(/'/g, "&#039;");
 }
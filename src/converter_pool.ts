@@ -0,0 +1,243 @@
+/**
+ * worker_threads pool for running conversions off the main thread.
+ *
+ * pdf.js parsing, image decoding and SVG generation are CPU-bound; a pool keeps
+ * the event loop of the calling process free. Each worker runs one conversion
+ * at a time and further requests queue until a worker is idle.
+ */
+
+import os from "node:os";
+import { Worker } from "node:worker_threads";
+import type { ConversionOptions } from "./conversion_options.ts";
+import type { HtmlWithStructureTree } from "./converter.ts";
+import { PDFFormatError, PDFNotTaggedError, PDFPasswordError, PDFPermissionError, ResourceLimitError, StructureElementNotFoundError } from "./errors.ts";
+import type { PasswordErrorReason } from "./errors.ts";
+import type { ResourceLimitName } from "./resource_limits.ts";
+import type { AssetOptions } from "./assets.ts";
+import type { UrlPolicy } from "./url_policy.ts";
+import type { SerializedError, WorkerConversionOptions, WorkerRequest, WorkerResponse } from "./converter_worker.ts";
+
+export interface ConverterPoolOptions {
+    /** Number of worker threads (default: available parallelism minus one, at least 1) */
+    size?: number;
+}
+
+export interface ConverterPool {
+    readonly size: number;
+    /**
+     * Converts in a worker. When `data` spans its whole ArrayBuffer the buffer is
+     * transferred (and detached in the caller); otherwise the bytes are copied.
+     * `signal`, `onProgress`, `onDiagnostic` and `assets.onAsset` work as in deriveHtmlFromPdf; aborting
+     * a running conversion terminates its worker, which is then replaced. Other options
+     * must survive structured cloning; `urlPolicy.rewrite` is rejected.
+     */
+    convert(data: Uint8Array, options?: ConversionOptions): Promise<HtmlWithStructureTree>;
+    /** Rejects queued conversions and terminates the workers */
+    destroy(): Promise<void>;
+}
+
+interface Task {
+    id: number;
+    data: Uint8Array;
+    options: ConversionOptions;
+    resolve: (result: HtmlWithStructureTree) => void;
+    reject: (error: unknown) => void;
+    cleanup: () => void;
+}
+
+interface PoolWorker {
+    worker: Worker;
+    task: Task | null;
+}
+
+export function createConverterPool(options: ConverterPoolOptions = {}): ConverterPool {
+    const size = Math.max(1, Math.floor(options.size ?? Math.max(1, os.availableParallelism() - 1)));
+    const workers: PoolWorker[] = [];
+    const queue: Task[] = [];
+    let nextId = 1;
+    let destroyed = false;
+
+    const spawn = (): PoolWorker => {
+        const entry: PoolWorker = { worker: createWorker(), task: null };
+        entry.worker.on("message", (response: WorkerResponse) => {
+            const { task } = entry;
+            if (!task || task.id !== response.id) return;
+            if (response.type === "progress") {
+                task.options.onProgress?.(response.progress);
+            } else if (response.type === "diagnostic") {
+                task.options.onDiagnostic?.(response.diagnostic);
+            } else if (response.type === "asset") {
+                task.options.assets?.onAsset?.(response.path, response.file);
+            } else {
+                finish(entry);
+                if (response.type === "result") task.resolve(response.result);
+                else task.reject(deserializeError(response.error));
+            }
+        });
+        // A crashed worker fails its conversion and is replaced
+        entry.worker.on("error", (error) => {
+            const { task } = entry;
+            replace(entry);
+            task?.reject(error);
+        });
+        entry.worker.on("exit", (code) => {
+            const { task } = entry;
+            if (destroyed || !workers.includes(entry)) return;
+            replace(entry);
+            task?.reject(new Error(`Converter worker exited with code ${code}.`));
+        });
+        // Idle workers don't keep the process alive
+        entry.worker.unref();
+        return entry;
+    };
+
+    const replace = (entry: PoolWorker) => {
+        const index = workers.indexOf(entry);
+        if (index === -1) return;
+        entry.task?.cleanup();
+        entry.task = null;
+        void entry.worker.terminate();
+        if (destroyed) {
+            workers.splice(index, 1);
+            return;
+        }
+        workers[index] = spawn();
+        dispatch();
+    };
+
+    const finish = (entry: PoolWorker) => {
+        entry.task?.cleanup();
+        entry.task = null;
+        entry.worker.unref();
+        dispatch();
+    };
+
+    const dispatch = () => {
+        for (const entry of workers) {
+            if (queue.length === 0) return;
+            if (entry.task) continue;
+            const task = queue.shift()!;
+            entry.task = task;
+            entry.worker.ref();
+            const { data, transfer } = prepareTransfer(task.data);
+            const { signal, onProgress, onDiagnostic, urlPolicy, assets, ...cloneable } = task.options;
+            const request: WorkerRequest = {
+                id: task.id,
+                data,
+                options: { ...cloneable, urlPolicy: urlPolicy && omitRewrite(urlPolicy), assets: assets && omitOnAsset(assets) },
+                reportProgress: !!onProgress,
+                reportDiagnostics: !!onDiagnostic,
+                reportAssets: !!assets?.onAsset
+            };
+            // Options that can't be cloned fail the conversion, not the pool
+            try {
+                entry.worker.postMessage(request, transfer);
+            } catch (e) {
+                finish(entry);
+                task.reject(e);
+            }
+        }
+    };
+
+    for (let i = 0; i < size; i++) workers.push(spawn());
+
+    return {
+        size,
+        convert(data, conversionOptions = {}) {
+            if (destroyed) return Promise.reject(new Error("Converter pool was destroyed."));
+            const { signal } = conversionOptions;
+            if (signal?.aborted) return Promise.reject(signal.reason);
+            // The hook's result is needed synchronously, so it can't be called across threads
+            if (conversionOptions.urlPolicy?.rewrite) {
+                return Promise.reject(new Error("urlPolicy.rewrite can't be used with the converter pool."));
+            }
+
+            return new Promise<HtmlWithStructureTree>((resolve, reject) => {
+                const task: Task = { id: nextId++, data, options: conversionOptions, resolve, reject, cleanup: () => {} };
+                if (signal) {
+                    const onAbort = () => {
+                        const queued = queue.indexOf(task);
+                        if (queued !== -1) {
+                            queue.splice(queued, 1);
+                        } else {
+                            const running = workers.find((entry) => entry.task === task);
+                            if (running) replace(running);
+                        }
+                        reject(signal.reason);
+                    };
+                    signal.addEventListener("abort", onAbort, { once: true });
+                    task.cleanup = () => signal.removeEventListener("abort", onAbort);
+                }
+                queue.push(task);
+                dispatch();
+            });
+        },
+        async destroy() {
+            destroyed = true;
+            const error = new Error("Converter pool was destroyed.");
+            for (const task of queue.splice(0)) {
+                task.cleanup();
+                task.reject(error);
+            }
+            const running = workers.splice(0);
+            await Promise.all(running.map(async (entry) => {
+                const { task } = entry;
+                entry.task = null;
+                task?.cleanup();
+                task?.reject(error);
+                await entry.worker.terminate();
+            }));
+        }
+    };
+}
+
+function createWorker(): Worker {
+    // Running from source (tests, tsx) the worker is loaded through tsx
+    if (import.meta.url.endsWith(".ts")) {
+        return new Worker(new URL("./converter_worker.ts", import.meta.url), {
+            execArgv: [...process.execArgv, "--import", "tsx"]
+        });
+    }
+    return new Worker(new URL("./converter_worker.mjs", import.meta.url));
+}
+
+function omitRewrite({ rewrite, ...policy }: UrlPolicy): WorkerConversionOptions["urlPolicy"] {
+    return policy;
+}
+
+function omitOnAsset({ onAsset, ...assets }: AssetOptions): WorkerConversionOptions["assets"] {
+    return assets;
+}
+
+// Transfer the caller's buffer when the bytes fill it; copy views into larger (e.g. pooled) buffers
+function prepareTransfer(data: Uint8Array): { data: Uint8Array; transfer: ArrayBuffer[] } {
+    const { buffer } = data;
+    if (buffer instanceof ArrayBuffer && data.byteOffset === 0 && data.byteLength === buffer.byteLength) {
+        return { data, transfer: [buffer] };
+    }
+    const copy = data.slice();
+    return { data: copy, transfer: [copy.buffer] };
+}
+
+function deserializeError({ name, message, details }: SerializedError): Error {
+    switch (name) {
+        case "PDFPasswordError":
+            return new PDFPasswordError(details.reason as PasswordErrorReason);
+        case "PDFPermissionError":
+            return new PDFPermissionError(message);
+        case "PDFFormatError":
+            return new PDFFormatError(message);
+        case "PDFNotTaggedError":
+            return new PDFNotTaggedError();
+        case "StructureElementNotFoundError":
+            return new StructureElementNotFoundError(details.id as string);
+        case "ResourceLimitError":
+            return new ResourceLimitError(details.limit as ResourceLimitName, details.max as number);
+        case "AbortError":
+        case "TimeoutError":
+            return new DOMException(message, name);
+    }
+    const error = new Error(message);
+    error.name = name;
+    return error;
+}
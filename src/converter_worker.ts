@@ -0,0 +1,73 @@
+/**
+ * Worker thread entry point for the converter pool (see converter_pool.ts).
+ * Runs one conversion per request message and posts the result back.
+ */
+
+import { parentPort } from "node:worker_threads";
+import { deriveHtmlWithStructureTree } from "./index.ts";
+import type { ConversionOptions, ConversionProgress } from "./conversion_options.ts";
+import type { HtmlWithStructureTree } from "./converter.ts";
+import type { Diagnostic } from "./diagnostics.ts";
+import type { UrlPolicy } from "./url_policy.ts";
+import type { AssetFile, AssetOptions } from "./assets.ts";
+
+/** Conversion options that survive structured cloning (no callbacks or signals) */
+export type WorkerConversionOptions = Omit<ConversionOptions, "signal" | "onProgress" | "onDiagnostic" | "urlPolicy" | "assets"> & {
+    urlPolicy?: Omit<UrlPolicy, "rewrite">;
+    assets?: Omit<AssetOptions, "onAsset">;
+};
+
+export interface WorkerRequest {
+    id: number;
+    data: Uint8Array;
+    options: WorkerConversionOptions;
+    reportProgress: boolean;
+    reportDiagnostics: boolean;
+    reportAssets: boolean;
+}
+
+export interface SerializedError {
+    name: string;
+    message: string;
+    /** Extra fields of the library's error classes (reason, limit, max) */
+    details: Record<string, unknown>;
+}
+
+export type WorkerResponse =
+    | { id: number; type: "result"; result: HtmlWithStructureTree }
+    | { id: number; type: "error"; error: SerializedError }
+    | { id: number; type: "progress"; progress: ConversionProgress }
+    | { id: number; type: "diagnostic"; diagnostic: Diagnostic }
+    | { id: number; type: "asset"; path: string; file: AssetFile };
+
+const port = parentPort;
+if (port) {
+    port.on("message", async ({ id, data, options, reportProgress, reportDiagnostics, reportAssets }: WorkerRequest) => {
+        const post = (response: WorkerResponse) => port.postMessage(response);
+        try {
+            const result = await deriveHtmlWithStructureTree(data, {
+                ...options,
+                assets: options.assets && reportAssets
+                    ? { ...options.assets, onAsset: (path, file) => post({ id, type: "asset", path, file }) }
+                    : options.assets,
+                onProgress: reportProgress ? (progress) => post({ id, type: "progress", progress }) : undefined,
+                onDiagnostic: reportDiagnostics ? (diagnostic) => post({ id, type: "diagnostic", diagnostic }) : undefined
+            });
+            post({ id, type: "result", result });
+        } catch (e) {
+            post({ id, type: "error", error: serializeError(e) });
+        }
+    });
+}
+
+// Class identity is lost in structured cloning, so errors travel as name, message and fields
+function serializeError(error: unknown): SerializedError {
+    if (!(error instanceof Error)) {
+        return { name: "Error", message: String(error), details: {} };
+    }
+    const details: Record<string, unknown> = {};
+    for (const key of ["reason", "limit", "max", "id"]) {
+        if (key in error) details[key] = (error as unknown as Record<string, unknown>)[key];
+    }
+    return { name: error.name, message: error.message, details };
+}
@@ -11,9 +11,17 @@ export function generateCSS(structTreeRoot: StructTreeRootType | null): string {
     // classMap is a Dict
     for (const key of classMap.getKeys()) {
         const attributes = classMap.get(key);
-        css += `.${key} { `;
+        css += `.${escapeClassName(key)} { `;
         css += getCSSProperties(attributes);
         css += " }\n";
     }
     return css;
 }
+
+// ClassMap keys are arbitrary PDF names; anything outside a plain CSS identifier is
+// written as a hex escape, so the selector still matches the class attribute
+function escapeClassName(name: string): string {
+    return name
+        .replace(/[^A-Za-z0-9_\u00a0-\uffff-]/g, (c) => `\\${c.charCodeAt(0).toString(16)} `)
+        .replace(/^(-?)([0-9])/, (_, dash: string, digit: string) => `${dash}\\3${digit} `);
+}
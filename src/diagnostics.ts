@@ -0,0 +1,68 @@
+import type { PDFContext } from "./pdf_js_context.ts";
+import { Ref } from "#pdfjs/core/primitives.js";
+
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+export type DiagnosticCode =
+    | "permissions-restricted"
+    | "xmp-parse-failed"
+    | "page-scripts-failed"
+    | "page-resources-failed"
+    | "outline-read-failed"
+    | "image-conversion-failed"
+    | "svg-generation-failed"
+    | "vector-graphic-failed"
+    | "vector-graphic-clamped"
+    | "resource-limit-exceeded"
+    | "scripts-blocked-by-csp"
+    | "url-blocked"
+    | "url-rewritten";
+
+/** Where in the document a problem was found */
+export interface DiagnosticLocation {
+    /** id of the generated HTML element for the enclosing structure element */
+    elementId?: string;
+    pageIndex?: number;
+    /** Indirect object reference, as "12 0 R" */
+    objectRef?: string;
+}
+
+/**
+ * A problem found during conversion. Errors mean content was lost
+ * (e.g. an image that could not be decoded); warnings mean it was degraded or skipped.
+ */
+export interface Diagnostic extends DiagnosticLocation {
+    severity: DiagnosticSeverity;
+    code: DiagnosticCode;
+    message: string;
+}
+
+export function reportDiagnostic(
+    context: PDFContext,
+    severity: DiagnosticSeverity,
+    code: DiagnosticCode,
+    message: string,
+    location: DiagnosticLocation = {},
+    cause?: unknown
+): void {
+    const diagnostic: Diagnostic = { severity, code, message: withCause(message, cause) };
+    // Leave out unknown location fields so diagnostics serialize compactly
+    if (location.elementId) diagnostic.elementId = location.elementId;
+    if (location.pageIndex !== undefined && location.pageIndex >= 0) diagnostic.pageIndex = location.pageIndex;
+    if (location.objectRef) diagnostic.objectRef = location.objectRef;
+
+    context.diagnostics.push(diagnostic);
+    context.options.onDiagnostic?.(diagnostic);
+}
+
+export function formatObjectRef(ref: unknown): string | undefined {
+    if (!(ref instanceof Ref)) return undefined;
+    const { num, gen } = ref as Ref;
+    return `${num} ${gen} R`;
+}
+
+function withCause(message: string, cause: unknown): string {
+    if (cause === undefined) return message;
+    const detail = cause instanceof Error ? cause.message : String(cause);
+    return detail ? `${message}: ${detail}` : message;
+}
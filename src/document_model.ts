@@ -0,0 +1,235 @@
+/**
+ * JSON document model.
+ *
+ * The converted document as typed blocks and inline runs, for consumers that need
+ * the structured content without parsing HTML. Every structure element that produced
+ * an element becomes a block or an inline node, with its role, id and language from
+ * the element tree and its page index, bounding box, MCIDs, attributes and alt text
+ * from the structure tree; text, images and link targets come from the element tree.
+ * DOCUMENT_MODEL_VERSION is increased whenever the model changes incompatibly.
+ */
+
+import type { PDFContext } from "./pdf_js_context.ts";
+import { convertToHTMLTree } from "./converter.ts";
+import type { ConversionOptions } from "./conversion_options.ts";
+import type { SerializableStructTreeElement } from "./structure_traversal.ts";
+import type { SerializedAttributeValue } from "./attribute_mapper.ts";
+import type { AssetMap } from "./assets.ts";
+import type { Diagnostic } from "./diagnostics.ts";
+import { getDocumentMetadata, getDocumentTitle } from "./metadata.ts";
+import type { DocumentMetadata } from "./metadata.ts";
+import { BLOCK_ELEMENTS, toHtml } from "./html_tree.ts";
+import type { HtmlContent, HtmlElement } from "./html_tree.ts";
+
+export const DOCUMENT_MODEL_VERSION: 1 = 1;
+
+/** Fields shared by blocks and inline nodes, all describing one structure element */
+export interface DocumentElementProperties {
+    /** Structure type after role mapping */
+    role: string;
+    /** Structure type before role mapping, when it differs from role */
+    originalRole?: string;
+    /** id of the element in the HTML output */
+    id?: string;
+    lang?: string;
+    pageIndex?: number;
+    /** [x1, y1, x2, y2] in PDF user space */
+    bbox?: number[];
+    /** Marked content owned by the element, as p{refNum}R_mc{mcid} */
+    mcids?: string[];
+    attributes?: Record<string, SerializedAttributeValue>[];
+    alt?: string;
+}
+
+export interface DocumentBlock extends DocumentElementProperties {
+    type: "block";
+    children: DocumentNode[];
+}
+
+export interface DocumentInline extends DocumentElementProperties {
+    type: "inline";
+    /** Link target (Link and Reference elements) */
+    href?: string;
+    /** id of the element an internal link points to */
+    targetId?: string;
+    children: DocumentInlineNode[];
+}
+
+export interface DocumentText {
+    type: "text";
+    text: string;
+}
+
+export interface DocumentImage {
+    type: "image";
+    /** Data URI, or the asset path when the `assets` option is set */
+    src: string;
+    alt?: string;
+    width?: number;
+    height?: number;
+}
+
+/** Markup embedded verbatim: generated SVG, MathML, associated HTML files */
+export interface DocumentMarkup {
+    type: "markup";
+    format: "svg" | "mathml" | "html";
+    value: string;
+}
+
+export type DocumentInlineNode = DocumentInline | DocumentText | DocumentImage | DocumentMarkup;
+
+export type DocumentNode = DocumentBlock | DocumentInlineNode;
+
+export interface DocumentModel {
+    version: typeof DOCUMENT_MODEL_VERSION;
+    title: string;
+    lang?: string;
+    pageCount: number;
+    metadata: DocumentMetadata;
+    children: DocumentNode[];
+}
+
+export interface DocumentModelWithAssets {
+    model: DocumentModel;
+    /** Files referenced by image nodes when the `assets` option is set (empty otherwise) */
+    assets: AssetMap;
+    diagnostics: Diagnostic[];
+}
+
+// Not content: document metadata, scripts and the structure map
+const SKIPPED_TAGS = new Set(["head", "title", "meta", "link", "style", "script", "template"]);
+
+export async function convertToDocumentModel(context: PDFContext, options?: ConversionOptions): Promise<DocumentModelWithAssets> {
+    const { tree, structureTree, assets, diagnostics } = await convertToHTMLTree(context, options);
+
+    const elements = new Map<string, SerializableStructTreeElement>();
+    indexStructureTree(structureTree, elements);
+
+    const html = tree.children.find((node): node is HtmlElement => node.type === "element" && node.tagName === "html");
+    const body = html?.children.find((node): node is HtmlElement => node.type === "element" && node.tagName === "body");
+    const metadata = getDocumentMetadata(context);
+    const lang = typeof html?.properties.lang === "string" ? html.properties.lang : metadata.language;
+
+    const model: DocumentModel = {
+        version: DOCUMENT_MODEL_VERSION,
+        title: getDocumentTitle(context),
+        ...(lang ? { lang } : {}),
+        pageCount: context.pdfDocument.numPages ?? 0,
+        metadata,
+        children: normalizeBlockChildren(toNodes(body?.children ?? [], elements))
+    };
+    return { model, assets, diagnostics };
+}
+
+function indexStructureTree(element: SerializableStructTreeElement, elements: Map<string, SerializableStructTreeElement>): void {
+    if (element.id) elements.set(element.id, element);
+    for (const child of element.children) {
+        if ("role" in child) indexStructureTree(child, elements);
+    }
+}
+
+function toNodes(nodes: HtmlContent[], elements: Map<string, SerializableStructTreeElement>): DocumentNode[] {
+    const result: DocumentNode[] = [];
+    for (const node of nodes) {
+        switch (node.type) {
+            case "text":
+                appendText(result, node.value.replace(/\s+/g, " "));
+                break;
+            case "raw":
+                result.push(toMarkup(node.value));
+                break;
+            case "element":
+                result.push(...elementToNodes(node, elements));
+                break;
+        }
+    }
+    return result;
+}
+
+function elementToNodes(element: HtmlElement, elements: Map<string, SerializableStructTreeElement>): DocumentNode[] {
+    const { tagName, properties } = element;
+    if (SKIPPED_TAGS.has(tagName)) return [];
+    if (tagName === "br") return [{ type: "text", text: "\n" }];
+    if (tagName === "math") return [{ type: "markup", format: "mathml", value: toHtml(element) }];
+    if (tagName === "svg") return [{ type: "markup", format: "svg", value: toHtml(element) }];
+    if (tagName === "img") {
+        const image: DocumentImage = { type: "image", src: String(properties.src ?? "") };
+        if (properties.alt) image.alt = String(properties.alt);
+        if (typeof properties.width === "number") image.width = properties.width;
+        if (typeof properties.height === "number") image.height = properties.height;
+        return [image];
+    }
+
+    const role = properties["data-pdf-se-type"];
+    const children = toNodes(element.children, elements);
+    // Elements that don't stand for a structure element (wrappers such as abbr) are transparent
+    if (typeof role !== "string") return children;
+
+    const base = getElementProperties(role, element, elements);
+    if (isBlock(element)) {
+        return [{ type: "block", ...base, children: normalizeBlockChildren(children) }];
+    }
+
+    const inline: DocumentInline = { type: "inline", ...base, children: children as DocumentInlineNode[] };
+    const href = properties.href;
+    if (typeof href === "string" && href) {
+        inline.href = href;
+        if (href.startsWith("#") && href.length > 1) inline.targetId = decodeURIComponent(href.slice(1));
+    }
+    return [inline];
+}
+
+function getElementProperties(
+    role: string,
+    element: HtmlElement,
+    elements: Map<string, SerializableStructTreeElement>
+): DocumentElementProperties {
+    const { properties } = element;
+    const result: DocumentElementProperties = { role };
+    const originalRole = properties["data-pdf-se-type-original"];
+    if (typeof originalRole === "string") result.originalRole = originalRole;
+    if (typeof properties.id === "string") result.id = properties.id;
+    if (typeof properties.lang === "string") result.lang = properties.lang;
+
+    const structElement = result.id ? elements.get(result.id) : undefined;
+    if (structElement) {
+        if (structElement.pageIndex !== undefined) result.pageIndex = structElement.pageIndex;
+        if (structElement.bbox) result.bbox = structElement.bbox;
+        if (structElement.mcids) result.mcids = structElement.mcids;
+        if (structElement.attributes) result.attributes = structElement.attributes;
+        if (structElement.alt) result.alt = structElement.alt;
+    }
+    return result;
+}
+
+// Inline elements wrapping blocks (e.g. a Figure in an inline context) are blocks themselves
+function isBlock(element: HtmlElement): boolean {
+    if (BLOCK_ELEMENTS.has(element.tagName)) return true;
+    return element.children.some((child) => child.type === "element" && isBlock(child));
+}
+
+function toMarkup(value: string): DocumentMarkup {
+    const trimmed = value.trim();
+    const format = trimmed.startsWith("<svg") ? "svg" : trimmed.startsWith("<math") ? "mathml" : "html";
+    return { type: "markup", format, value };
+}
+
+function appendText(nodes: DocumentNode[], text: string): void {
+    const last = nodes[nodes.length - 1];
+    if (last?.type === "text") {
+        last.text += text;
+    } else if (text) {
+        nodes.push({ type: "text", text });
+    }
+}
+
+// Whitespace that only separated blocks in the HTML is dropped, and text is trimmed at block edges
+function normalizeBlockChildren(children: DocumentNode[]): DocumentNode[] {
+    const hasBlocks = children.some((child) => child.type === "block");
+    const result = children.filter((child) => child.type !== "text" || !hasBlocks || child.text.trim());
+    const first = result[0];
+    if (first?.type === "text") first.text = first.text.trimStart();
+    const last = result[result.length - 1];
+    if (last?.type === "text") last.text = last.text.trimEnd();
+    return result.filter((child) => child.type !== "text" || child.text);
+}
@@ -0,0 +1,420 @@
+/**
+ * EPUB 3 packaging of the converted document.
+ *
+ * The HTML is serialized as a single XHTML content document, with images and associated
+ * files written as asset files next to it, and packaged in an OCF container
+ * together with the package document (metadata from the XMP) and a navigation
+ * document. The table of contents follows the PDF outline when its entries resolve to
+ * pages, and the document's headings otherwise; the page list links each page to the
+ * first structure element whose content starts on it.
+ */
+
+import type { PDFContext } from "./pdf_js_context.ts";
+import { Ref } from "#pdfjs/core/primitives.js";
+import { convertToHTMLTree } from "./converter.ts";
+import type { SerializedStructureMap } from "./converter.ts";
+import type { ConversionOptions } from "./conversion_options.ts";
+import type { AssetMap } from "./assets.ts";
+import { reportDiagnostic } from "./diagnostics.ts";
+import type { Diagnostic } from "./diagnostics.ts";
+import { getDocumentMetadata, getDocumentTitle } from "./metadata.ts";
+import { getDocumentDirection } from "./viewer_preferences.ts";
+import { h, text, toXhtml } from "./html_tree.ts";
+import type { HtmlContent, HtmlElement, HtmlProperties, HtmlRoot } from "./html_tree.ts";
+import { parseMarkup } from "./sanitizer.ts";
+import { createZip } from "./zip.ts";
+import type { ZipEntry } from "./zip.ts";
+import type { PDFOutlineItem } from "./types.ts";
+
+export interface EpubWithDiagnostics {
+    /** The .epub file (an OCF ZIP container) */
+    epub: Uint8Array;
+    diagnostics: Diagnostic[];
+}
+
+interface NavEntry {
+    label: string;
+    href?: string;
+    children: NavEntry[];
+}
+
+/** Content features that need declaring in the manifest and accessibility metadata */
+interface ContentFeatures {
+    svg: boolean;
+    mathml: boolean;
+    scripted: boolean;
+    images: boolean;
+    remoteResources: boolean;
+}
+
+const PACKAGE_DIRECTORY = "EPUB";
+const CONTENT_FILE = "document.xhtml";
+const NAV_FILE = "nav.xhtml";
+const ASSET_DIRECTORY = "assets";
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>\n';
+
+// Namespaces of foreign elements parsed from HTML, where they are implied
+const FOREIGN_NAMESPACES: Record<string, Record<string, string>> = {
+    svg: { xmlns: "http://www.w3.org/2000/svg", "xmlns:xlink": "http://www.w3.org/1999/xlink" },
+    math: { xmlns: "http://www.w3.org/1998/Math/MathML" }
+};
+
+// Attributes that load a resource, rather than link to one
+const RESOURCE_ATTRIBUTES = ["src", "srcset", "poster", "data", "xlink:href"];
+const RESOURCE_HREF_ELEMENTS = new Set(["link", "image", "use", "feImage"]);
+const REMOTE_URL = /^\s*https?:\/\//i;
+const REMOTE_CSS_URL = /url\(\s*["']?\s*https?:\/\/|@import\s+["']\s*https?:\/\//i;
+
+export async function convertToEPUB(context: PDFContext, options?: ConversionOptions): Promise<EpubWithDiagnostics> {
+    const assets = { ...context.options.assets, ...options?.assets, directory: ASSET_DIRECTORY };
+    const result = await convertToHTMLTree(context, { ...options, assets });
+    const { tree, structureMap } = result;
+
+    const metadata = getDocumentMetadata(context);
+    const title = getDocumentTitle(context);
+    const language = metadata.language || "und";
+
+    // XHTML namespaces on the root element; xml:lang alongside lang
+    const html = tree.children.find((node): node is HtmlElement => node.type === "element" && node.tagName === "html");
+    if (html) {
+        html.properties = {
+            xmlns: "http://www.w3.org/1999/xhtml",
+            "xmlns:epub": "http://www.idpf.org/2007/ops",
+            ...html.properties,
+            ...(html.properties.lang ? { "xml:lang": html.properties.lang } : {})
+        };
+    }
+
+    // Raw markup (generated SVG, associated HTML and MathML files) is only known to be HTML
+    tree.children = toWellFormed(tree.children);
+
+    const pageTargets = getPageTargets(structureMap);
+    const headings = collectHeadings(tree);
+    const outline = await readOutline(context, pageTargets);
+    const toc = outline.length > 0 ? outline
+        : headings.length > 0 ? headings
+        : [{ label: title, href: CONTENT_FILE, children: [] }];
+
+    const pageLabels = readPageLabels(context);
+    const pageList: NavEntry[] = [...pageTargets].map(([pageIndex, id]) => ({
+        label: pageLabels?.[pageIndex] || String(pageIndex + 1),
+        href: `${CONTENT_FILE}#${id}`,
+        children: []
+    }));
+
+    const features = getContentFeatures(tree);
+    const entries: ZipEntry[] = [
+        { path: "mimetype", data: "application/epub+zip", store: true },
+        { path: "META-INF/container.xml", data: renderContainer() },
+        {
+            path: `${PACKAGE_DIRECTORY}/package.opf`,
+            data: renderPackage(context, title, language, result.assets, features, headings.length > 0, pageList.length > 0)
+        },
+        { path: `${PACKAGE_DIRECTORY}/${NAV_FILE}`, data: renderNavigation(title, language, toc, pageList) },
+        { path: `${PACKAGE_DIRECTORY}/${CONTENT_FILE}`, data: XML_DECLARATION + toXhtml(tree) }
+    ];
+    for (const [path, file] of Object.entries(result.assets)) {
+        entries.push({ path: `${PACKAGE_DIRECTORY}/${path}`, data: file.data });
+    }
+
+    return { epub: await createZip(entries), diagnostics: [...context.diagnostics] };
+}
+
+// Page index → id of the first element whose content starts on that page, in page order
+function getPageTargets(structureMap: SerializedStructureMap): Map<number, string> {
+    const targets = new Map<number, string>();
+    for (const [id, { page }] of Object.entries(structureMap)) {
+        if (page >= 0 && !targets.has(page)) targets.set(page, id);
+    }
+    return new Map([...targets].sort(([a], [b]) => a - b));
+}
+
+async function readOutline(context: PDFContext, pageTargets: Map<number, string>): Promise<NavEntry[]> {
+    const { catalog } = context.pdfDocument;
+    let outline: PDFOutlineItem[] | null;
+    try {
+        outline = catalog.documentOutline;
+    } catch (e) {
+        reportDiagnostic(context, "warning", "outline-read-failed", "Could not read the document outline", {}, e);
+        return [];
+    }
+
+    const toEntry = async (item: PDFOutlineItem): Promise<NavEntry | null> => {
+        const children: NavEntry[] = [];
+        for (const child of item.items ?? []) {
+            const entry = await toEntry(child);
+            if (entry) children.push(entry);
+        }
+        const pageIndex = await resolveDestinationPage(context, item.dest);
+        const id = pageIndex === null ? undefined : findPageTarget(pageTargets, pageIndex);
+        // Entries that lead nowhere are kept only as headings of their children
+        if (!id && children.length === 0) return null;
+        const label = item.title?.trim() || (pageIndex === null ? "Untitled" : `Page ${pageIndex + 1}`);
+        return { label, href: id ? `${CONTENT_FILE}#${id}` : undefined, children };
+    };
+
+    const entries: NavEntry[] = [];
+    for (const item of outline ?? []) {
+        const entry = await toEntry(item);
+        if (entry) entries.push(entry);
+    }
+    return entries;
+}
+
+async function resolveDestinationPage(context: PDFContext, dest: PDFOutlineItem["dest"]): Promise<number | null> {
+    const { catalog } = context.pdfDocument;
+    try {
+        const explicit = typeof dest === "string" ? catalog.getDestination(dest) : dest;
+        if (!Array.isArray(explicit) || explicit.length === 0) return null;
+        const [page] = explicit;
+        if (page instanceof Ref) return await catalog.getPageIndex(page as Ref);
+        // Some producers write a page number instead of a page reference
+        return Number.isInteger(page) ? page as number : null;
+    } catch {
+        return null;
+    }
+}
+
+// Pages without structured content of their own lead to the next page that has some
+function findPageTarget(pageTargets: Map<number, string>, pageIndex: number): string | undefined {
+    for (const [page, id] of pageTargets) {
+        if (page >= pageIndex) return id;
+    }
+    return undefined;
+}
+
+function readPageLabels(context: PDFContext): string[] | null {
+    try {
+        return context.pdfDocument.catalog.pageLabels;
+    } catch {
+        return null;
+    }
+}
+
+// h1–h6 elements nested by level; headings without an id are given one
+function collectHeadings(tree: HtmlRoot): NavEntry[] {
+    const root: NavEntry = { label: "", children: [] };
+    const stack: { level: number; entry: NavEntry }[] = [{ level: 0, entry: root }];
+    let generated = 0;
+
+    const visit = (nodes: HtmlContent[]) => {
+        for (const node of nodes) {
+            if (node.type !== "element") continue;
+            const match = /^h([1-6])$/.exec(node.tagName);
+            if (!match) {
+                visit(node.children);
+                continue;
+            }
+            const label = getTextContent(node).replace(/\s+/g, " ").trim();
+            if (!label) continue;
+            if (!node.properties.id) node.properties.id = `epub-heading-${++generated}`;
+
+            const level = Number(match[1]);
+            while (stack[stack.length - 1].level >= level) stack.pop();
+            const entry: NavEntry = { label, href: `${CONTENT_FILE}#${node.properties.id}`, children: [] };
+            stack[stack.length - 1].entry.children.push(entry);
+            stack.push({ level, entry });
+        }
+    };
+    visit(tree.children);
+    return root.children;
+}
+
+function getTextContent(element: HtmlElement): string {
+    let content = "";
+    for (const child of element.children) {
+        if (child.type === "text") content += child.value;
+        else if (child.type === "element") content += getTextContent(child);
+    }
+    return content;
+}
+
+// Raw nodes are parsed and replaced by the elements they contain, so that the content
+// document is serialized as XML: attributes that aren't XML names are dropped and SVG
+// and MathML roots declare their namespace
+function toWellFormed(nodes: HtmlContent[]): HtmlContent[] {
+    const result: HtmlContent[] = [];
+    for (const node of nodes) {
+        if (node.type === "raw") {
+            result.push(...toWellFormed(parseMarkup(node.value)));
+            continue;
+        }
+        if (node.type === "element") {
+            const properties: HtmlProperties = {};
+            for (const [name, value] of Object.entries(node.properties)) {
+                if (/^[A-Za-z_][\w.-]*(?::[A-Za-z_][\w.-]*)?$/.test(name)) properties[name] = value;
+            }
+            const namespaces = FOREIGN_NAMESPACES[node.tagName];
+            node.properties = namespaces && properties.xmlns === undefined
+                ? { ...namespaces, ...properties }
+                : properties;
+            node.children = toWellFormed(node.children);
+        }
+        result.push(node);
+    }
+    return result;
+}
+
+function getContentFeatures(tree: HtmlRoot): ContentFeatures {
+    const features: ContentFeatures = { svg: false, mathml: false, scripted: false, images: false, remoteResources: false };
+    const visit = (nodes: HtmlContent[]) => {
+        for (const node of nodes) {
+            if (node.type !== "element") continue;
+            const name = node.tagName.slice(node.tagName.indexOf(":") + 1);
+            if (name === "svg") features.svg = features.images = true;
+            if (name === "math") features.mathml = true;
+            if (name === "img") features.images = true;
+            // The structure map is data, not script
+            if (name === "script" && node.properties.type !== "application/json") features.scripted = true;
+            if (loadsRemoteResource(node)) features.remoteResources = true;
+            visit(node.children);
+        }
+    };
+    visit(tree.children);
+    return features;
+}
+
+function loadsRemoteResource(element: HtmlElement): boolean {
+    const { properties } = element;
+    const urls = RESOURCE_ATTRIBUTES.map((name) => properties[name]);
+    if (RESOURCE_HREF_ELEMENTS.has(element.tagName)) urls.push(properties.href);
+    if (urls.some((url) => typeof url === "string" && url.split(",").some((candidate) => REMOTE_URL.test(candidate)))) return true;
+    if (typeof properties.style === "string" && REMOTE_CSS_URL.test(properties.style)) return true;
+    return element.tagName === "style" && REMOTE_CSS_URL.test(getTextContent(element));
+}
+
+function renderContainer(): string {
+    const container = h("container", { version: "1.0", xmlns: "urn:oasis:names:tc:opendocument:xmlns:container" }, [
+        h("rootfiles", {}, [
+            h("rootfile", { "full-path": `${PACKAGE_DIRECTORY}/package.opf`, "media-type": "application/oebps-package+xml" })
+        ])
+    ]);
+    return XML_DECLARATION + toXhtml(container) + "\n";
+}
+
+function renderPackage(
+    context: PDFContext,
+    title: string,
+    language: string,
+    assets: AssetMap,
+    features: ContentFeatures,
+    hasHeadings: boolean,
+    hasPageList: boolean
+): string {
+    const metadata = getDocumentMetadata(context);
+    const entries: HtmlContent[] = [];
+    const add = (element: HtmlElement) => entries.push(text("\n    "), element);
+    const meta = (property: string, value: string) => add(h("meta", { property }, [text(value)]));
+
+    add(h("dc:identifier", { id: "pub-id" }, [text(getIdentifier(metadata.identifier))]));
+    add(h("dc:title", {}, [text(title)]));
+    add(h("dc:language", {}, [text(language)]));
+    for (const creator of metadata.creators) add(h("dc:creator", {}, [text(creator)]));
+    for (const subject of metadata.subjects) add(h("dc:subject", {}, [text(subject)]));
+    if (metadata.description) add(h("dc:description", {}, [text(metadata.description)]));
+    if (metadata.publisher) add(h("dc:publisher", {}, [text(metadata.publisher)]));
+    if (metadata.rights) add(h("dc:rights", {}, [text(metadata.rights)]));
+    const created = formatDate(metadata.created);
+    if (created) add(h("dc:date", {}, [text(created)]));
+    meta("dcterms:modified", formatDate(metadata.modified) ?? formatDate(new Date().toISOString())!);
+
+    // Accessibility metadata (schema.org)
+    meta("schema:accessMode", "textual");
+    if (features.images) meta("schema:accessMode", "visual");
+    meta("schema:accessModeSufficient", features.images ? "textual,visual" : "textual");
+    meta("schema:accessibilityFeature", "readingOrder");
+    meta("schema:accessibilityFeature", "tableOfContents");
+    if (hasHeadings) meta("schema:accessibilityFeature", "structuralNavigation");
+    if (hasPageList) meta("schema:accessibilityFeature", "pageNavigation");
+    if (features.mathml) meta("schema:accessibilityFeature", "MathML");
+    meta("schema:accessibilityHazard", "unknown");
+
+    const contentProperties = [
+        features.svg && "svg",
+        features.mathml && "mathml",
+        features.scripted && "scripted",
+        features.remoteResources && "remote-resources"
+    ].filter(Boolean).join(" ");
+    const items: HtmlContent[] = [];
+    const item = (properties: Record<string, string>) => items.push(text("\n    "), h("item", properties));
+    item({ id: "nav", href: NAV_FILE, "media-type": "application/xhtml+xml", properties: "nav" });
+    item({
+        id: "content",
+        href: CONTENT_FILE,
+        "media-type": "application/xhtml+xml",
+        ...(contentProperties ? { properties: contentProperties } : {})
+    });
+    Object.entries(assets).forEach(([path, file], index) => {
+        item({ id: `asset-${index + 1}`, href: path, "media-type": file.mediaType });
+    });
+
+    const opf = h("package", {
+        xmlns: "http://www.idpf.org/2007/opf",
+        version: "3.0",
+        "unique-identifier": "pub-id",
+        "xml:lang": language
+    }, [
+        text("\n  "),
+        h("metadata", { "xmlns:dc": "http://purl.org/dc/elements/1.1/" }, [...entries, text("\n  ")]),
+        text("\n  "),
+        h("manifest", {}, [...items, text("\n  ")]),
+        text("\n  "),
+        // §12.2: ViewerPreferences Direction, or the direction of the document language
+        h("spine", getDocumentDirection(context) === "rtl" ? { "page-progression-direction": "rtl" } : {}, [
+            text("\n    "), h("itemref", { idref: "content" }), text("\n  ")
+        ]),
+        text("\n")
+    ]);
+    return XML_DECLARATION + toXhtml(opf) + "\n";
+}
+
+function renderNavigation(title: string, language: string, toc: NavEntry[], pageList: NavEntry[]): string {
+    const body = h("body", {}, [
+        text("\n"),
+        h("nav", { "epub:type": "toc", role: "doc-toc", id: "toc" }, [h("h1", {}, [text(title)]), renderNavList(toc)]),
+        text("\n")
+    ]);
+    if (pageList.length > 0) {
+        body.children.push(
+            h("nav", { "epub:type": "page-list", role: "doc-pagelist", id: "page-list", hidden: true }, [
+                h("h2", {}, [text("Pages")]),
+                renderNavList(pageList)
+            ]),
+            text("\n")
+        );
+    }
+
+    const html = h("html", {
+        xmlns: "http://www.w3.org/1999/xhtml",
+        "xmlns:epub": "http://www.idpf.org/2007/ops",
+        lang: language,
+        "xml:lang": language
+    }, [
+        text("\n"),
+        h("head", {}, [h("meta", { charset: "utf-8" }), h("title", {}, [text(title)])]),
+        text("\n"),
+        body,
+        text("\n")
+    ]);
+    return XML_DECLARATION + toXhtml({ type: "root", children: [{ type: "doctype" }, text("\n"), html] }) + "\n";
+}
+
+function renderNavList(entries: NavEntry[]): HtmlElement {
+    return h("ol", {}, entries.map(({ label, href, children }) => h("li", {}, [
+        href ? h("a", { href }, [text(label)]) : h("span", {}, [text(label)]),
+        ...(children.length > 0 ? [renderNavList(children)] : [])
+    ])));
+}
+
+// xmpMM:DocumentID is usually "uuid:…"; without any identifier a random UUID is used
+function getIdentifier(identifier: string | undefined): string {
+    if (!identifier) return `urn:uuid:${crypto.randomUUID()}`;
+    return /^uuid:/i.test(identifier) ? `urn:${identifier}` : identifier;
+}
+
+// dcterms:modified requires CCYY-MM-DDThh:mm:ssZ
+function formatDate(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
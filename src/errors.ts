@@ -0,0 +1,77 @@
+import type { ResourceLimits } from "./conversion_options.ts";
+
+/** Why an encrypted PDF could not be opened */
+export type PasswordErrorReason = "required" | "incorrect";
+
+/**
+ * Thrown when the PDF is protected by a user password and none (or the wrong one) was given.
+ * Callers can prompt for a password and retry with `ConversionOptions.password`.
+ */
+export class PDFPasswordError extends Error {
+    readonly reason: PasswordErrorReason;
+
+    constructor(reason: PasswordErrorReason) {
+        super(reason === "required"
+            ? "PDF is encrypted and requires a password."
+            : "Incorrect password for encrypted PDF.");
+        this.name = "PDFPasswordError";
+        this.reason = reason;
+    }
+}
+
+/**
+ * Thrown when the document's permission flags disallow content extraction.
+ * Set `ConversionOptions.permissions` to "warn" or "ignore" to override.
+ */
+export class PDFPermissionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "PDFPermissionError";
+    }
+}
+
+/** Thrown when the input cannot be parsed as a PDF (bad header, broken xref, missing catalog) */
+export class PDFFormatError extends Error {
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options);
+        this.name = "PDFFormatError";
+    }
+}
+
+/**
+ * Thrown when the PDF has no structure tree.
+ * Set `ConversionOptions.inferStructure` to derive one from the page layout instead.
+ */
+export class PDFNotTaggedError extends Error {
+    constructor() {
+        super("PDF is not tagged (no StructTreeRoot found).");
+        this.name = "PDFNotTaggedError";
+    }
+}
+
+/** Thrown when `ConversionOptions.subtreeId` doesn't name a structure element of the document */
+export class StructureElementNotFoundError extends Error {
+    readonly id: string;
+
+    constructor(id: string) {
+        super(`Structure element "${id}" not found.`);
+        this.name = "StructureElementNotFoundError";
+        this.id = id;
+    }
+}
+
+/**
+ * §14.2: Thrown when the input exceeds one of `ConversionOptions.limits`.
+ * Set `ConversionOptions.onLimitExceeded` to "truncate" to convert what fits instead.
+ */
+export class ResourceLimitError extends Error {
+    readonly limit: keyof ResourceLimits;
+    readonly max: number;
+
+    constructor(limit: keyof ResourceLimits, max: number) {
+        super(`PDF exceeds resource limit ${limit} (${max}).`);
+        this.name = "ResourceLimitError";
+        this.limit = limit;
+        this.max = max;
+    }
+}
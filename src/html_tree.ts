@@ -0,0 +1,157 @@
+/**
+ * Plain JSON element tree for the generated HTML.
+ *
+ * Nodes follow the shape of hast (https://github.com/syntax-tree/hast), except that
+ * element properties are keyed by their HTML attribute name ("class", "data-pdf-se-type").
+ * Markup embedded verbatim (associated HTML and MathML files, generated SVG) is kept
+ * in "raw" nodes, as in hast-util-raw. toHtml serializes a tree to the HTML string,
+ * toXhtml to the XML syntax of HTML (used for EPUB content documents).
+ */
+
+export type HtmlPropertyValue = string | number | boolean;
+
+/** Attribute name → value; true renders a boolean attribute, false omits it */
+export type HtmlProperties = Record<string, HtmlPropertyValue>;
+
+export interface HtmlRoot {
+    type: "root";
+    children: HtmlContent[];
+}
+
+export interface HtmlElement {
+    type: "element";
+    tagName: string;
+    properties: HtmlProperties;
+    children: HtmlContent[];
+}
+
+export interface HtmlText {
+    type: "text";
+    value: string;
+}
+
+export interface HtmlComment {
+    type: "comment";
+    value: string;
+}
+
+export interface HtmlDoctype {
+    type: "doctype";
+}
+
+/** Pre-serialized markup, emitted as is */
+export interface HtmlRaw {
+    type: "raw";
+    value: string;
+}
+
+export type HtmlContent = HtmlElement | HtmlText | HtmlComment | HtmlDoctype | HtmlRaw;
+
+export type HtmlNode = HtmlRoot | HtmlContent;
+
+// Elements without end tag or content
+const VOID_ELEMENTS = new Set([
+    "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr"
+]);
+
+/** Block-level elements that the traversal produces (and their containers); everything else is inline */
+export const BLOCK_ELEMENTS: ReadonlySet<string> = new Set([
+    "html", "body", "div", "section", "article", "aside", "nav", "header", "footer", "main", "form",
+    "p", "h1", "h2", "h3", "h4", "h5", "h6", "blockquote", "pre", "hr",
+    "ul", "ol", "li", "dl", "dt", "dd",
+    "table", "caption", "thead", "tbody", "tfoot", "tr", "th", "td",
+    "figure", "figcaption"
+]);
+
+// Elements whose text content is not escaped
+const RAW_TEXT_ELEMENTS = new Set(["script", "style"]);
+
+export function h(tagName: string, properties: HtmlProperties = {}, children: HtmlContent[] = []): HtmlElement {
+    return { type: "element", tagName, properties, children };
+}
+
+export function text(value: string): HtmlText {
+    return { type: "text", value };
+}
+
+export function comment(value: string): HtmlComment {
+    return { type: "comment", value };
+}
+
+export function raw(value: string): HtmlRaw {
+    return { type: "raw", value };
+}
+
+export function toHtml(node: HtmlNode | HtmlContent[]): string {
+    if (Array.isArray(node)) return serializeChildren(node, false, false);
+    return serializeNode(node, false, false);
+}
+
+/**
+ * Serializes as XHTML: void elements self-close, boolean attributes repeat their name
+ * and script/style text is escaped. Raw nodes are still emitted as is, so they must
+ * already be well-formed XML.
+ */
+export function toXhtml(node: HtmlNode | HtmlContent[]): string {
+    if (Array.isArray(node)) return serializeChildren(node, false, true);
+    return serializeNode(node, false, true);
+}
+
+/** Start tag of an element, for emitting its content separately (streaming) */
+export function openTag(element: HtmlElement): string {
+    return startTag(element, false) + ">";
+}
+
+export function closeTag(element: HtmlElement): string {
+    return VOID_ELEMENTS.has(element.tagName) ? "" : `</${element.tagName}>`;
+}
+
+function startTag(element: HtmlElement, xml: boolean): string {
+    let html = `<${element.tagName}`;
+    for (const [name, value] of Object.entries(element.properties)) {
+        if (value === false) continue;
+        if (value === true) {
+            html += xml ? ` ${name}="${name}"` : ` ${name}`;
+        } else {
+            html += ` ${name}="${escapeHtml(String(value))}"`;
+        }
+    }
+    return html;
+}
+
+function serializeNode(node: HtmlNode, rawText: boolean, xml: boolean): string {
+    switch (node.type) {
+        case "root":
+            return serializeChildren(node.children, false, xml);
+        case "element":
+            if (VOID_ELEMENTS.has(node.tagName)) return startTag(node, xml) + (xml ? " />" : ">");
+            return startTag(node, xml) + ">"
+                + serializeChildren(node.children, !xml && RAW_TEXT_ELEMENTS.has(node.tagName), xml)
+                + closeTag(node);
+        case "text":
+            return rawText ? node.value : escapeHtml(node.value);
+        case "comment":
+            return `<!--${node.value}-->`;
+        case "doctype":
+            return "<!DOCTYPE html>";
+        case "raw":
+            return node.value;
+    }
+}
+
+function serializeChildren(children: HtmlContent[], rawText: boolean, xml: boolean): string {
+    let html = "";
+    for (const child of children) {
+        html += serializeNode(child, rawText, xml);
+    }
+    return html;
+}
+
+function escapeHtml(unsafe: string): string {
+    return unsafe
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#039;");
+}
@@ -5,6 +5,9 @@ import { GlobalColorSpaceCache, LocalColorSpaceCache } from "#pdfjs/core/image_u
 import { PDFFunctionFactory } from "#pdfjs/core/function.js";
 import { Dict, Ref, Name } from "#pdfjs/core/primitives.js";
 import type { ImageXObject } from "./types.ts";
+import type { ResolvedConversionOptions } from "./conversion_options.ts";
+import { reportDiagnostic } from "./diagnostics.ts";
+import type { DiagnosticLocation } from "./diagnostics.ts";
 
 class SimpleCache<K = unknown, V = unknown> {
     cache = new Map<K, V>();
@@ -13,7 +16,20 @@ class SimpleCache<K = unknown, V = unknown> {
     clear() { this.cache.clear(); }
 }
 
-export async function convertImageXObject(context: PDFContext, imageXObject: ImageXObject | Dict, inheritedPageRef: Ref | null): Promise<string> {
+// §9.3: JPEG for photos (better compression, smaller size),
+// PNG for graphics (lossless, transparency support), unless the caller forces one
+export function getImageMimeType(options: ResolvedConversionOptions, isPhoto: boolean): string {
+    if (options.imageFormat === "png") return "image/png";
+    if (options.imageFormat === "jpeg") return "image/jpeg";
+    return isPhoto ? "image/jpeg" : "image/png";
+}
+
+export async function convertImageXObject(
+    context: PDFContext,
+    imageXObject: ImageXObject | Dict,
+    inheritedPageRef: Ref | null,
+    location: DiagnosticLocation = {}
+): Promise<string> {
     const { xref, pdfDocument } = context;
 
     // Get Resources from Page
@@ -91,16 +107,11 @@ export async function convertImageXObject(context: PDFContext, imageXObject: Ima
         ctx.putImageData(canvasImageData, 0, 0);
 
         // §9.3: Convert to appropriate format
-        // JPEG for photos (better compression, smaller size)
-        // PNG for graphics (lossless, transparency support)
-        if (isPhoto) {
-            return canvas.toDataURL("image/jpeg", 0.9); // 90% quality
-        } else {
-            return canvas.toDataURL("image/png");
-        }
+        const mimeType = getImageMimeType(context.options, isPhoto);
+        return canvas.toDataURL(mimeType, context.options.jpegQuality);
 
     } catch (e) {
-        console.warn("Failed to convert image:", e);
+        reportDiagnostic(context, "error", "image-conversion-failed", "Failed to convert image", location, e);
         return "";
     }
 }
@@ -1,44 +1,145 @@
 import { createPDFContext } from "./pdf_js_context.ts";
-import { convertToHTML } from "./converter.ts";
+import { ensureStructure } from "./structure_inference.ts";
+import { convertToHTML, convertToHTMLStream, convertToHTMLTree, convertToHTMLWithStructureTree } from "./converter.ts";
+import type { HtmlTreeWithStructureTree, HtmlWithAssets, HtmlWithDiagnostics, HtmlWithStructureTree } from "./converter.ts";
+import type { ConversionOptions } from "./conversion_options.ts";
+import { convertToEPUB } from "./epub.ts";
+import type { EpubWithDiagnostics } from "./epub.ts";
+import { toMarkdown } from "./markdown.ts";
+import { convertToDocumentModel } from "./document_model.ts";
+import type { DocumentModelWithAssets } from "./document_model.ts";
+import type { MarkdownWithAssets } from "./markdown.ts";
+import { convertToJATS } from "./jats.ts";
+import type { JatsWithAssets } from "./jats.ts";
+import { convertToPlainText } from "./plain_text.ts";
+import type { PlainTextOptions, TextWithDiagnostics } from "./plain_text.ts";
 
-export interface SerializableStructTreeElement {
-    role: string;
-    children: SerializableStructTreeNode[];
-    alt?: string;
-    lang?: string;
-    mathML?: string;
-    bbox?: number[];
+export type { ConversionOptions, ConversionProgress, ImageFormat, LimitPolicy, PageRange, PermissionPolicy, ResourceLimits, ScriptRuntime } from "./conversion_options.ts";
+export type { UrlPolicy, UrlUsage } from "./url_policy.ts";
+export { PDFFormatError, PDFNotTaggedError, PDFPasswordError, PDFPermissionError, ResourceLimitError, StructureElementNotFoundError } from "./errors.ts";
+export type { PasswordErrorReason } from "./errors.ts";
+export type {
+    HtmlTreeWithStructureTree,
+    HtmlWithAssets,
+    HtmlWithDiagnostics,
+    HtmlWithStructureTree,
+    SerializedStructureMap
+} from "./converter.ts";
+export type { AssetFile, AssetMap, AssetOptions } from "./assets.ts";
+export type { EpubWithDiagnostics } from "./epub.ts";
+export { toMarkdown } from "./markdown.ts";
+export type { MarkdownWithAssets } from "./markdown.ts";
+export { DOCUMENT_MODEL_VERSION } from "./document_model.ts";
+export type {
+    DocumentBlock,
+    DocumentElementProperties,
+    DocumentImage,
+    DocumentInline,
+    DocumentInlineNode,
+    DocumentMarkup,
+    DocumentModel,
+    DocumentModelWithAssets,
+    DocumentNode,
+    DocumentText
+} from "./document_model.ts";
+export type { DocumentMetadata } from "./metadata.ts";
+export type { JatsWithAssets } from "./jats.ts";
+export type { PlainTextOptions, TextWithDiagnostics } from "./plain_text.ts";
+export { toHtml, toXhtml } from "./html_tree.ts";
+export type {
+    HtmlComment,
+    HtmlContent,
+    HtmlDoctype,
+    HtmlElement,
+    HtmlNode,
+    HtmlProperties,
+    HtmlPropertyValue,
+    HtmlRaw,
+    HtmlRoot,
+    HtmlText
+} from "./html_tree.ts";
+export type { Diagnostic, DiagnosticCode, DiagnosticLocation, DiagnosticSeverity } from "./diagnostics.ts";
+export type {
+    SerializableStructTreeElement,
+    SerializableStructTreeLeaf,
+    SerializableStructTreeNode
+} from "./structure_traversal.ts";
+export type { SerializedAttributeValue } from "./attribute_mapper.ts";
+
+export async function deriveHtmlFromPdf(data: Uint8Array, options: ConversionOptions = {}): Promise<string> {
+    const context = await createPDFContext(data, options);
+    await ensureStructure(context);
+    return convertToHTML(context);
 }
 
-export interface SerializableStructTreeLeaf {
-    type: "content" | "object" | "annotation";
-    id: string;
+export async function deriveHtmlWithDiagnostics(data: Uint8Array, options: ConversionOptions = {}): Promise<HtmlWithDiagnostics> {
+    const { html, diagnostics } = await deriveHtmlWithStructureTree(data, options);
+    return { html, diagnostics };
 }
 
-export type SerializableStructTreeNode = SerializableStructTreeElement | SerializableStructTreeLeaf;
+// Images, associated files and fonts as separate files (assets defaults to {} here)
+export async function deriveHtmlWithAssets(data: Uint8Array, options: ConversionOptions = {}): Promise<HtmlWithAssets> {
+    const { html, assets, diagnostics } = await deriveHtmlWithStructureTree(data, { ...options, assets: options.assets ?? {} });
+    return { html, assets, diagnostics };
+}
 
-export interface HtmlWithStructureTree {
-    html: string;
-    structureTree: SerializableStructTreeElement;
+export async function deriveHtmlWithStructureTree(data: Uint8Array, options: ConversionOptions = {}): Promise<HtmlWithStructureTree> {
+    const context = await createPDFContext(data, options);
+    await ensureStructure(context);
+    return convertToHTMLWithStructureTree(context);
 }
 
-export async function deriveHtmlFromPdf(data: Uint8Array): Promise<string> {
-    const context = await createPDFContext(data);
-    if (!context.structTreeRoot) {
-        throw new Error("PDF is not tagged (no StructTreeRoot found).");
-    }
-    return convertToHTML(context);
+// The HTML as a plain JSON element tree (see html_tree.ts), for post-processing without re-parsing
+export async function deriveHtmlTreeFromPdf(data: Uint8Array, options: ConversionOptions = {}): Promise<HtmlTreeWithStructureTree> {
+    const context = await createPDFContext(data, options);
+    await ensureStructure(context);
+    return convertToHTMLTree(context);
+}
+
+// Markdown rendered from the element tree; HTML is embedded where Markdown has no equivalent
+export async function deriveMarkdownFromPdf(data: Uint8Array, options: ConversionOptions = {}): Promise<MarkdownWithAssets> {
+    const { tree, assets, diagnostics } = await deriveHtmlTreeFromPdf(data, options);
+    return { markdown: toMarkdown(tree), assets, diagnostics };
+}
+
+// Typed JSON model of the content: blocks and inline runs with their structure information
+export async function deriveDocumentModelFromPdf(data: Uint8Array, options: ConversionOptions = {}): Promise<DocumentModelWithAssets> {
+    const context = await createPDFContext(data, options);
+    await ensureStructure(context);
+    return convertToDocumentModel(context);
+}
+
+// Plain text in structure tree order, for screen-reader QA and text diffing
+export async function deriveTextFromPdf(
+    data: Uint8Array,
+    options: ConversionOptions = {},
+    textOptions: PlainTextOptions = {}
+): Promise<TextWithDiagnostics> {
+    const context = await createPDFContext(data, options);
+    await ensureStructure(context);
+    return convertToPlainText(context, textOptions);
+}
+
+// JATS 1.3 article: sections, figures, tables, formulas, footnotes and references, with XMP article metadata
+export async function deriveJatsFromPdf(data: Uint8Array, options: ConversionOptions = {}): Promise<JatsWithAssets> {
+    const context = await createPDFContext(data, options);
+    await ensureStructure(context);
+    return convertToJATS(context);
+}
+
+// EPUB 3 publication: the document as XHTML with its assets, navigation and package metadata
+export async function deriveEpubFromPdf(data: Uint8Array, options: ConversionOptions = {}): Promise<EpubWithDiagnostics> {
+    const context = await createPDFContext(data, options);
+    await ensureStructure(context);
+    return convertToEPUB(context);
 }
 
-export async function deriveHtmlWithStructureTree(data: Uint8Array): Promise<HtmlWithStructureTree> {
-    const context = await createPDFContext(data);
-    if (!context.structTreeRoot) {
-        throw new Error("PDF is not tagged (no StructTreeRoot found).");
-    }
-    const html = await convertToHTML(context);
-    const firstPage = await context.pdfDocument.getPage(0);
-    const pageTree = firstPage.getStructTree ? await firstPage.getStructTree() : null;
-    const fallbackTree: SerializableStructTreeElement = { role: "Root", children: [] };
-    const structureTree = (pageTree ?? fallbackTree) as SerializableStructTreeElement;
-    return { html, structureTree };
+// Streams the HTML in chunks (head, body content, tail) for large documents
+export async function* deriveHtmlStreamFromPdf(
+    data: Uint8Array,
+    options: ConversionOptions = {}
+): AsyncGenerator<string, void, undefined> {
+    const context = await createPDFContext(data, options);
+    await ensureStructure(context);
+    yield* convertToHTMLStream(context);
 }
@@ -0,0 +1,597 @@
+/**
+ * JATS 1.3 (Archiving and Interchange) rendering of the converted document.
+ *
+ * Roles are read from the element tree (data-pdf-se-type): Sect and headings become
+ * nested <sec>s, Figure <fig>, Table <table-wrap>, Formula <disp-formula> or
+ * <inline-formula> with MathML from the MathML namespace or associated files, FENote
+ * and Note <fn>s in <back><fn-group>, BibEntry <ref>s in <back><ref-list>, and internal
+ * links and References <xref>s typed by their target. Article metadata (title,
+ * authors, date, keywords, rights, abstract) comes from the XMP metadata.
+ */
+
+import type { PDFContext } from "./pdf_js_context.ts";
+import { convertToHTMLTree } from "./converter.ts";
+import type { ConversionOptions } from "./conversion_options.ts";
+import type { AssetMap } from "./assets.ts";
+import type { Diagnostic } from "./diagnostics.ts";
+import { getDocumentMetadata, getDocumentTitle } from "./metadata.ts";
+import type { DocumentMetadata } from "./metadata.ts";
+import { BLOCK_ELEMENTS, h, raw, text, toXhtml } from "./html_tree.ts";
+import type { HtmlContent, HtmlElement, HtmlProperties } from "./html_tree.ts";
+
+export interface JatsWithAssets {
+    jats: string;
+    /** Files referenced by graphics when the `assets` option is set (empty otherwise) */
+    assets: AssetMap;
+    diagnostics: Diagnostic[];
+}
+
+interface JatsState {
+    /** Element id → role, for typing xrefs */
+    roles: Map<string, string>;
+    footnotes: HtmlElement[];
+    references: HtmlElement[];
+    /** Content of the first Title element, used as the article title */
+    title?: HtmlContent[];
+}
+
+const DOCTYPE = '<!DOCTYPE article PUBLIC "-//NLM//DTD JATS (Z39.96) Journal Archiving and Interchange DTD v1.3 20210610//EN" "JATS-archivearticle1-3.dtd">';
+
+const MATHML_NAMESPACE = "http://www.w3.org/1998/Math/MathML";
+
+// Not content: document metadata, scripts and the structure map
+const SKIPPED_TAGS = new Set(["head", "title", "meta", "link", "style", "script", "template"]);
+
+const XREF_TYPES: Record<string, string> = {
+    BibEntry: "bibr",
+    FENote: "fn",
+    Note: "fn",
+    Figure: "fig",
+    Table: "table",
+    Formula: "disp-formula",
+    Sect: "sec",
+    H: "sec", H1: "sec", H2: "sec", H3: "sec", H4: "sec", H5: "sec", H6: "sec"
+};
+
+// Marker for a heading until the blocks are grouped into sections
+const HEADING_MARKER = "data-heading-level";
+
+export async function convertToJATS(context: PDFContext, options?: ConversionOptions): Promise<JatsWithAssets> {
+    const { tree, assets, diagnostics } = await convertToHTMLTree(context, options);
+
+    const state: JatsState = { roles: new Map(), footnotes: [], references: [] };
+    collectRoles(tree.children, state.roles);
+    const html = tree.children.find((node): node is HtmlElement => node.type === "element" && node.tagName === "html");
+    const body = html?.children.find((node): node is HtmlElement => node.type === "element" && node.tagName === "body");
+
+    const metadata = getDocumentMetadata(context);
+    const bodyContent = sectionize(convertBlocks(body?.children ?? [], state));
+    const lang = typeof html?.properties.lang === "string" ? html.properties.lang : metadata.language;
+
+    const back: HtmlContent[] = [];
+    if (state.footnotes.length > 0) back.push(h("fn-group", {}, state.footnotes));
+    if (state.references.length > 0) {
+        back.push(h("ref-list", {}, [h("title", {}, [text("References")]), ...state.references]));
+    }
+
+    const article = h("article", {
+        "xmlns:mml": MATHML_NAMESPACE,
+        "xmlns:xlink": "http://www.w3.org/1999/xlink",
+        "dtd-version": "1.3",
+        ...(lang ? { "xml:lang": lang } : {})
+    }, [
+        h("front", {}, [renderArticleMeta(metadata, state.title ?? [text(getDocumentTitle(context))])]),
+        h("body", {}, bodyContent),
+        ...(back.length > 0 ? [h("back", {}, back)] : [])
+    ]);
+    resolveCrossReferences(article);
+
+    const jats = `<?xml version="1.0" encoding="UTF-8"?>\n${DOCTYPE}\n${toXhtml(indent(article, 0))}\n`;
+    return { jats, assets, diagnostics };
+}
+
+function renderArticleMeta(metadata: DocumentMetadata, title: HtmlContent[]): HtmlElement {
+    const children: HtmlContent[] = [];
+    const doi = /^(?:doi:|https?:\/\/(?:dx\.)?doi\.org\/)?(10\.\d{4,}\/\S+)$/i.exec(metadata.identifier ?? "");
+    if (doi) children.push(h("article-id", { "pub-id-type": "doi" }, [text(doi[1])]));
+    children.push(h("title-group", {}, [h("article-title", {}, title)]));
+    if (metadata.creators.length > 0) {
+        children.push(h("contrib-group", {}, metadata.creators.map((creator) =>
+            h("contrib", { "contrib-type": "author" }, [h("string-name", {}, [text(creator)])]))));
+    }
+    const date = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?/.exec(metadata.created ?? "");
+    if (date) {
+        const [, year, month, day] = date;
+        children.push(h("pub-date", { "publication-format": "electronic", "date-type": "pub" }, [
+            ...(day ? [h("day", {}, [text(day)])] : []),
+            ...(month ? [h("month", {}, [text(month)])] : []),
+            h("year", {}, [text(year)])
+        ]));
+    }
+    if (metadata.rights) {
+        children.push(h("permissions", {}, [h("copyright-statement", {}, [text(metadata.rights)])]));
+    }
+    if (metadata.description) {
+        children.push(h("abstract", {}, [h("p", {}, [text(metadata.description)])]));
+    }
+    if (metadata.subjects.length > 0) {
+        children.push(h("kwd-group", { "kwd-group-type": "author" }, metadata.subjects.map((subject) => h("kwd", {}, [text(subject)]))));
+    }
+    return h("article-meta", {}, children);
+}
+
+function collectRoles(nodes: HtmlContent[], roles: Map<string, string>): void {
+    for (const node of nodes) {
+        if (node.type !== "element") continue;
+        const { id } = node.properties;
+        const role = node.properties["data-pdf-se-type"];
+        if (typeof id === "string" && typeof role === "string") roles.set(id, role);
+        collectRoles(node.children, roles);
+    }
+}
+
+// Block-level content; inline content between blocks is wrapped in <p>
+function convertBlocks(nodes: HtmlContent[], state: JatsState): HtmlContent[] {
+    const blocks: HtmlContent[] = [];
+    let inline: HtmlContent[] = [];
+    const flush = () => {
+        const content = trimInline(inline);
+        if (content.length > 0) blocks.push(h("p", {}, content));
+        inline = [];
+    };
+
+    for (const node of nodes) {
+        if (node.type === "element" && isBlock(node)) {
+            flush();
+            blocks.push(...convertBlock(node, state));
+        } else if (node.type === "raw" && isMathML(node.value)) {
+            flush();
+            blocks.push(h("disp-formula", {}, [convertRawMathML(node.value)]));
+        } else {
+            inline.push(...convertInline([node], state));
+        }
+    }
+    flush();
+    return blocks;
+}
+
+function convertBlock(element: HtmlElement, state: JatsState): HtmlContent[] {
+    const { tagName, properties } = element;
+    if (SKIPPED_TAGS.has(tagName)) return [];
+    const role = typeof properties["data-pdf-se-type"] === "string" ? properties["data-pdf-se-type"] : "";
+    const id = getId(element);
+
+    const heading = /^h([1-6])$/.exec(tagName);
+    if (heading || properties.role === "heading") {
+        const level = heading ? Number(heading[1]) : Number(properties["aria-level"]) || 6;
+        if (role === "Title" && !state.title) {
+            state.title = trimInline(convertInline(element.children, state));
+            return [];
+        }
+        return [h("title", { ...id, [HEADING_MARKER]: level }, trimInline(convertInline(element.children, state)))];
+    }
+
+    switch (role) {
+        case "Sect":
+        case "Index": {
+            const section = h("sec", id);
+            section.children = sectionize(convertBlocks(element.children, state), section);
+            return [section];
+        }
+        case "P":
+            if (element.children.some((child) => child.type === "element" && isBlock(child))) {
+                return convertBlocks(element.children, state);
+            }
+            return paragraph(convertInline(element.children, state), id);
+        case "BlockQuote":
+            return [h("disp-quote", id, flattenHeadings(convertBlocks(element.children, state)))];
+        case "Aside":
+            return [h("boxed-text", id, flattenHeadings(convertBlocks(element.children, state)))];
+        case "L":
+            return convertList(element, state);
+        case "Table":
+            return [convertTable(element, state)];
+        case "Figure":
+            return [convertFigure(element, state)];
+        case "Formula":
+            return [convertFormula(element, state, "disp-formula")];
+        case "Code":
+            return [h("code", id, [text(getTextContent(element))])];
+        case "FENote":
+        case "Note":
+            state.footnotes.push(convertFootnote(element, state));
+            return [];
+        case "BibEntry":
+            state.references.push(convertReference(element, state));
+            return [];
+        case "Caption":
+            return paragraph(convertInline(element.children, state), id);
+    }
+
+    if (tagName === "dl") return convertList(element, state);
+    if (tagName === "pre") return [h("preformat", id, [text(getTextContent(element))])];
+    if (tagName === "hr") return [];
+    // Grouping elements without a JATS counterpart (Part, Div, NonStruct, ...) are transparent
+    return convertBlocks(element.children, state);
+}
+
+function convertList(list: HtmlElement, state: JatsState): HtmlContent[] {
+    const listType = list.tagName === "ol"
+        ? ({ a: "alpha-lower", A: "alpha-upper", i: "roman-lower", I: "roman-upper" } as Record<string, string>)[String(list.properties.type)] ?? "order"
+        : list.tagName === "dl" ? "simple" : "bullet";
+    const items: HtmlContent[] = [];
+    for (const item of list.children) {
+        if (item.type !== "element") continue;
+        const label = item.children.find((child): child is HtmlElement =>
+            child.type === "element" && (child.properties["data-pdf-se-type"] === "Lbl" || child.tagName === "dt"));
+        const body = item.children.filter((child) => child !== label);
+        const content = flattenHeadings(item.tagName === "li" || item.tagName === "div" ? convertBlocks(body, state) : convertBlock(item, state));
+        const labelContent = label ? trimInline(convertInline(label.children, state)) : [];
+        // BibEntries and notes moved to the back leave empty items behind
+        if (content.length === 0 && labelContent.length === 0) continue;
+        items.push(h("list-item", getId(item), [
+            ...(labelContent.length > 0 ? [h("label", {}, labelContent)] : []),
+            ...(content.length > 0 ? content : [h("p", {}, [])])
+        ]));
+    }
+    return items.length > 0 ? [h("list", { ...getId(list), "list-type": listType }, items)] : [];
+}
+
+function convertTable(table: HtmlElement, state: JatsState): HtmlElement {
+    const captions: HtmlContent[] = [];
+    const convertRows = (nodes: HtmlContent[]): HtmlContent[] => {
+        const rows: HtmlContent[] = [];
+        for (const node of nodes) {
+            if (node.type !== "element") continue;
+            if (node.tagName === "caption") {
+                captions.push(...flattenHeadings(convertBlocks(node.children, state)));
+            } else if (node.tagName === "thead" || node.tagName === "tbody" || node.tagName === "tfoot") {
+                rows.push(h(node.tagName, {}, convertRows(node.children)));
+            } else if (node.tagName === "tr") {
+                rows.push(h("tr", {}, node.children.flatMap((cell): HtmlContent[] => {
+                    if (cell.type !== "element" || (cell.tagName !== "th" && cell.tagName !== "td")) return [];
+                    const spans: HtmlProperties = {};
+                    for (const name of ["rowspan", "colspan", "scope", "headers"]) {
+                        if (cell.properties[name] !== undefined) spans[name] = cell.properties[name];
+                    }
+                    return [h(cell.tagName, spans, trimInline(convertInline(cell.children, state)))];
+                })));
+            }
+        }
+        return rows;
+    };
+    const rows = convertRows(table.children);
+    return h("table-wrap", getId(table), [
+        ...(captions.length > 0 ? [h("caption", {}, captions)] : []),
+        h("table", {}, rows)
+    ]);
+}
+
+function convertFigure(figure: HtmlElement, state: JatsState): HtmlElement {
+    const alt = typeof figure.properties.alt === "string" ? figure.properties.alt : undefined;
+    const captions: HtmlContent[] = [];
+    const graphics: HtmlContent[] = [];
+    const visit = (nodes: HtmlContent[]) => {
+        for (const node of nodes) {
+            if (node.type === "raw") {
+                const graphic = rawToGraphic(node.value, "graphic", alt);
+                if (graphic) graphics.push(graphic);
+            } else if (node.type === "element") {
+                if (node.tagName === "figcaption" || node.properties["data-pdf-se-type"] === "Caption") {
+                    captions.push(...flattenHeadings(convertBlocks(node.children, state)));
+                } else if (node.tagName === "img") {
+                    graphics.push(toGraphic(String(node.properties.src ?? ""), "graphic", String(node.properties.alt || alt || "")));
+                } else {
+                    visit(node.children);
+                }
+            }
+        }
+    };
+    visit(figure.children);
+    return h("fig", getId(figure), [
+        ...(captions.length > 0 ? [h("caption", {}, captions)] : []),
+        ...(graphics.length > 0 ? graphics : alt ? [h("alt-text", {}, [text(alt)])] : [])
+    ]);
+}
+
+// MathML from the MathML namespace or an associated file, else the rendered image, else the text
+function convertFormula(formula: HtmlElement, state: JatsState, tagName: "disp-formula" | "inline-formula"): HtmlElement {
+    const alt = typeof formula.properties.alt === "string" ? formula.properties.alt : "";
+    const math = findMathML(formula);
+    if (math) return h(tagName, getId(formula), [math]);
+
+    const graphicTag = tagName === "disp-formula" ? "graphic" : "inline-graphic";
+    const image = findFirst(formula, (node) => node.type === "element" && node.tagName === "img") as HtmlElement | undefined;
+    if (image) return h(tagName, getId(formula), [toGraphic(String(image.properties.src ?? ""), graphicTag, alt)]);
+    const svg = findFirst(formula, (node) => node.type === "raw" && node.value.trim().startsWith("<svg"));
+    if (svg?.type === "raw") return h(tagName, getId(formula), [rawToGraphic(svg.value, graphicTag, alt)!]);
+
+    return h(tagName, getId(formula), trimInline(convertInline(formula.children, state)));
+}
+
+function convertFootnote(note: HtmlElement, state: JatsState): HtmlElement {
+    const label = note.children.find((child): child is HtmlElement =>
+        child.type === "element" && child.properties["data-pdf-se-type"] === "Lbl");
+    const body = note.children.filter((child) => child !== label);
+    const content = flattenHeadings(note.tagName === "p" ? paragraph(convertInline(body, state)) : convertBlocks(body, state));
+    return h("fn", getId(note), [
+        ...(label ? [h("label", {}, trimInline(convertInline(label.children, state)))] : []),
+        ...(content.length > 0 ? content : [h("p", {}, [])])
+    ]);
+}
+
+function convertReference(entry: HtmlElement, state: JatsState): HtmlElement {
+    const label = entry.children.find((child): child is HtmlElement =>
+        child.type === "element" && child.properties["data-pdf-se-type"] === "Lbl");
+    const body = entry.children.filter((child) => child !== label);
+    return h("ref", getId(entry), [
+        ...(label ? [h("label", {}, trimInline(convertInline(label.children, state)))] : []),
+        h("mixed-citation", {}, trimInline(convertInline(body, state)))
+    ]);
+}
+
+function convertInline(nodes: HtmlContent[], state: JatsState): HtmlContent[] {
+    const result: HtmlContent[] = [];
+    for (const node of nodes) {
+        if (node.type === "text") {
+            result.push(text(node.value.replace(/\s+/g, " ")));
+        } else if (node.type === "raw") {
+            if (isMathML(node.value)) result.push(h("inline-formula", {}, [convertRawMathML(node.value)]));
+            else if (node.value.trim().startsWith("<svg")) result.push(rawToGraphic(node.value, "inline-graphic", "")!);
+        } else if (node.type === "element") {
+            result.push(...convertInlineElement(node, state));
+        }
+    }
+    return result;
+}
+
+function convertInlineElement(element: HtmlElement, state: JatsState): HtmlContent[] {
+    const { tagName, properties } = element;
+    if (SKIPPED_TAGS.has(tagName)) return [];
+    const role = properties["data-pdf-se-type"];
+    const children = () => convertInline(element.children, state);
+
+    if (role === "Formula") return [convertFormula(element, state, "inline-formula")];
+    if (role === "FENote" || role === "Note") {
+        // The note moves to the back, leaving a reference labelled like the note
+        const note = convertFootnote(element, state);
+        state.footnotes.push(note);
+        const label = note.children.find((child): child is HtmlElement => child.type === "element" && child.tagName === "label");
+        if (!label || typeof note.properties.id !== "string") return [];
+        return [h("xref", { "ref-type": "fn", rid: note.properties.id }, [h("sup", {}, label.children)])];
+    }
+    if (tagName === "math") return [h("inline-formula", {}, [convertMathElement(element, true)])];
+
+    switch (tagName) {
+        case "em":
+        case "i":
+            return [h("italic", {}, children())];
+        case "strong":
+        case "b":
+            return [h("bold", {}, children())];
+        case "sub":
+        case "sup":
+            return [h(tagName, {}, children())];
+        case "code":
+            return [h("monospace", {}, children())];
+        case "q":
+            return [text("“"), ...children(), text("”")];
+        case "br":
+            return [text(" ")];
+        case "img":
+            return [toGraphic(String(properties.src ?? ""), "inline-graphic", String(properties.alt ?? ""))];
+        case "abbr":
+            return [h("abbrev", typeof properties.title === "string" ? { "xlink:title": properties.title } : {}, children())];
+        case "a": {
+            const href = typeof properties.href === "string" ? properties.href : "";
+            if (href.startsWith("#") && href.length > 1) {
+                const target = decodeURIComponent(href.slice(1));
+                const refType = XREF_TYPES[state.roles.get(target) ?? ""] ?? "other";
+                return [h("xref", { "ref-type": refType, rid: toXmlId(target) }, children())];
+            }
+            if (href) return [h("ext-link", { "ext-link-type": "uri", "xlink:href": href }, children())];
+            return children();
+        }
+    }
+    return children();
+}
+
+// Headings become <sec>s: each heading opens a section that runs to the next heading
+// of the same or a higher level. Content after a subsection is wrapped in an untitled one,
+// since JATS doesn't allow paragraphs after subsections. Within a Sect, a leading heading
+// is the title of the Sect's own section.
+function sectionize(blocks: HtmlContent[], parent?: HtmlElement): HtmlContent[] {
+    const root: HtmlContent[] = [];
+    const stack: { level: number; children: HtmlContent[]; section?: HtmlElement }[] = [{ level: 0, children: root, section: parent }];
+    for (const block of blocks) {
+        const level = block.type === "element" ? block.properties[HEADING_MARKER] : undefined;
+        if (typeof level !== "number" || block.type !== "element") {
+            stack[stack.length - 1].children.push(block);
+            continue;
+        }
+        const { [HEADING_MARKER]: _level, id, ...properties } = block.properties;
+        const title = h("title", properties, block.children);
+        // A section's own leading heading is its title
+        const top = stack[stack.length - 1];
+        if (top.children.length === 0 && top.section) {
+            if (id !== undefined) {
+                if (top.section.properties.id === undefined) top.section.properties.id = id;
+                else title.properties.id = id;
+            }
+            top.children.push(title);
+            top.level = level;
+            continue;
+        }
+        // The heading's id moves to the section, so xrefs to it are section references
+        while (stack.length > 1 && stack[stack.length - 1].level >= level) stack.pop();
+        const section = h("sec", id !== undefined ? { id } : {}, [title]);
+        stack[stack.length - 1].children.push(section);
+        stack.push({ level, children: section.children, section });
+    }
+    return orderSectionContent(root);
+}
+
+function orderSectionContent(children: HtmlContent[]): HtmlContent[] {
+    const result: HtmlContent[] = [];
+    let trailing: HtmlContent[] = [];
+    let seenSection = false;
+    for (const child of children) {
+        const isSection = child.type === "element" && child.tagName === "sec";
+        if (isSection) {
+            if (trailing.length > 0) result.push(h("sec", {}, trailing));
+            trailing = [];
+            seenSection = true;
+            result.push(child);
+        } else if (seenSection) {
+            trailing.push(child);
+        } else {
+            result.push(child);
+        }
+    }
+    if (trailing.length > 0) result.push(h("sec", {}, trailing));
+    return result;
+}
+
+// Inside lists, captions, notes and boxes headings can't open sections
+function flattenHeadings(blocks: HtmlContent[]): HtmlContent[] {
+    return blocks.map((block) => {
+        if (block.type !== "element" || block.properties[HEADING_MARKER] === undefined) return block;
+        const { [HEADING_MARKER]: _level, ...properties } = block.properties;
+        return h("p", properties, [h("bold", {}, block.children)]);
+    });
+}
+
+// xrefs must point at an element that was written with that id
+function resolveCrossReferences(article: HtmlElement): void {
+    const ids = new Set<string>();
+    const collect = (element: HtmlElement) => {
+        if (typeof element.properties.id === "string") ids.add(element.properties.id);
+        for (const child of element.children) if (child.type === "element") collect(child);
+    };
+    collect(article);
+
+    const resolve = (element: HtmlElement) => {
+        element.children = element.children.flatMap((child) => {
+            if (child.type !== "element") return [child];
+            resolve(child);
+            return child.tagName === "xref" && !ids.has(String(child.properties.rid)) ? child.children : [child];
+        });
+    };
+    resolve(article);
+}
+
+function findMathML(element: HtmlElement): HtmlContent | null {
+    const node = findFirst(element, (candidate) =>
+        (candidate.type === "element" && candidate.tagName === "math") || (candidate.type === "raw" && isMathML(candidate.value)));
+    if (!node) return null;
+    return node.type === "raw" ? convertRawMathML(node.value) : convertMathElement(node as HtmlElement, true);
+}
+
+// MathML elements take the mml: prefix declared on <article>
+function convertMathElement(element: HtmlElement, root: boolean): HtmlElement {
+    const properties: HtmlProperties = {};
+    for (const [name, value] of Object.entries(element.properties)) {
+        if (name === "xmlns" || name.startsWith("data-pdf-") || name === "id") continue;
+        properties[name] = value;
+    }
+    if (root && typeof element.properties.id === "string") properties.id = toXmlId(element.properties.id);
+    const children = element.children.map((child) => child.type === "element" ? convertMathElement(child, false) : child);
+    return h(`mml:${element.tagName}`, properties, children);
+}
+
+// Associated MathML files are markup; their element names are prefixed textually
+function convertRawMathML(markup: string): HtmlContent {
+    const math = markup.slice(markup.search(/<(?:[\w-]+:)?math[\s>]/));
+    const prefixed = math
+        .replace(/<(\/?)(?:[\w-]+:)?([A-Za-z][\w.-]*)/g, "<$1mml:$2")
+        .replace(/\s+xmlns(?::[\w-]+)?="[^"]*"/g, "");
+    return raw(prefixed);
+}
+
+function isMathML(markup: string): boolean {
+    return /<(?:[\w-]+:)?math[\s>]/.test(markup) && (markup.includes(MATHML_NAMESPACE) || /^\s*<math[\s>]/.test(markup));
+}
+
+function rawToGraphic(markup: string, tagName: "graphic" | "inline-graphic", alt: string | undefined): HtmlElement | null {
+    const svg = markup.trim();
+    if (!svg.startsWith("<svg")) return null;
+    let binary = "";
+    for (const byte of new TextEncoder().encode(svg)) binary += String.fromCharCode(byte);
+    return toGraphic(`data:image/svg+xml;base64,${btoa(binary)}`, tagName, alt ?? "");
+}
+
+function toGraphic(href: string, tagName: "graphic" | "inline-graphic", alt: string): HtmlElement {
+    return h(tagName, { "xlink:href": href }, alt ? [h("alt-text", {}, [text(alt)])] : []);
+}
+
+function paragraph(content: HtmlContent[], id: HtmlProperties = {}): HtmlContent[] {
+    const trimmed = trimInline(content);
+    return trimmed.length > 0 ? [h("p", id, trimmed)] : [];
+}
+
+function getId(element: HtmlElement): HtmlProperties {
+    return typeof element.properties.id === "string" ? { id: toXmlId(element.properties.id) } : {};
+}
+
+// IDs must be XML names
+function toXmlId(id: string): string {
+    const name = id.replace(/[^\w.-]/g, "_");
+    return /^[A-Za-z_]/.test(name) ? name : `id-${name}`;
+}
+
+function isBlock(element: HtmlElement): boolean {
+    if (BLOCK_ELEMENTS.has(element.tagName) || SKIPPED_TAGS.has(element.tagName)) return true;
+    // Inline elements wrapping blocks (e.g. a Figure in an inline context) act as containers
+    return element.children.some((child) => child.type === "element" && isBlock(child));
+}
+
+function findFirst(element: HtmlElement, predicate: (node: HtmlContent) => boolean): HtmlContent | undefined {
+    for (const child of element.children) {
+        if (predicate(child)) return child;
+        if (child.type === "element") {
+            const found = findFirst(child, predicate);
+            if (found) return found;
+        }
+    }
+    return undefined;
+}
+
+function getTextContent(element: HtmlElement): string {
+    let content = "";
+    for (const child of element.children) {
+        if (child.type === "text") content += child.value;
+        else if (child.type === "element") content += child.tagName === "br" ? "\n" : getTextContent(child);
+    }
+    return content;
+}
+
+// Merges adjacent text and trims whitespace at the edges of inline content
+function trimInline(content: HtmlContent[]): HtmlContent[] {
+    const result: HtmlContent[] = [];
+    for (const node of content) {
+        const previous = result[result.length - 1];
+        if (node.type === "text" && previous?.type === "text") result[result.length - 1] = text(previous.value + node.value);
+        else result.push(node);
+    }
+    const first = result[0];
+    if (first?.type === "text") result[0] = text(first.value.trimStart());
+    const last = result[result.length - 1];
+    if (last?.type === "text") result[result.length - 1] = text(last.value.trimEnd());
+    return result.filter((node) => node.type !== "text" || node.value);
+}
+
+// Line breaks between block-level JATS elements, for readable output
+function indent(element: HtmlElement, depth: number): HtmlElement {
+    const blockChildren = element.children.length > 0 && element.children.every((child) =>
+        child.type === "element" && !INLINE_JATS.has(child.tagName));
+    if (!blockChildren) return element;
+    const pad = "\n" + "  ".repeat(depth + 1);
+    const children: HtmlContent[] = [];
+    for (const child of element.children) children.push(text(pad), indent(child as HtmlElement, depth + 1));
+    children.push(text("\n" + "  ".repeat(depth)));
+    return { ...element, children };
+}
+
+const INLINE_JATS = new Set([
+    "italic", "bold", "sub", "sup", "monospace", "xref", "ext-link", "inline-formula", "inline-graphic", "abbrev"
+]);
@@ -0,0 +1,363 @@
+/**
+ * Markdown serialization of the element tree.
+ *
+ * The tree carries the traversal's role resolution: tags from mapRoleToTag and the
+ * resolved structure type in data-pdf-se-type, so headings, lists with Lbl, tables,
+ * Code, Quote, links and figures map onto CommonMark (with GFM tables). Constructs
+ * Markdown cannot express (description lists, tables with spanning or block cells,
+ * sub/superscripts, MathML, form controls, headings below level 6) are embedded as HTML.
+ */
+
+import { BLOCK_ELEMENTS, toHtml } from "./html_tree.ts";
+import type { HtmlContent, HtmlElement, HtmlNode, HtmlRaw } from "./html_tree.ts";
+import type { AssetMap } from "./assets.ts";
+import type { Diagnostic } from "./diagnostics.ts";
+
+export interface MarkdownWithAssets {
+    markdown: string;
+    /** Files referenced by the Markdown when the `assets` option is set (empty otherwise) */
+    assets: AssetMap;
+    diagnostics: Diagnostic[];
+}
+
+interface MarkdownContext {
+    /** ids that internal links point to; they get an HTML anchor */
+    linkTargets: Set<string>;
+    /** Alt text of the enclosing Figure or Formula, for images without their own */
+    figureAlt?: string;
+    /** Inside a table cell, where content must stay on one line */
+    tableCell?: boolean;
+}
+
+// Not content: document metadata, scripts and the structure map
+const SKIPPED_TAGS = new Set(["head", "title", "meta", "link", "style", "script", "template"]);
+
+// Inline elements kept as HTML
+const HTML_INLINE_TAGS = new Set([
+    "sub", "sup", "abbr", "ruby", "math", "svg", "input", "select", "textarea", "button", "video", "audio"
+]);
+
+// Labels that are just a bullet glyph
+const BULLET_LABEL = /^[•◦▪▫■□●○‣⁃∙·*+\-–—]$/;
+
+export function toMarkdown(node: HtmlNode | HtmlContent[]): string {
+    const nodes = Array.isArray(node) ? node : node.type === "root" ? node.children : [node];
+    const context: MarkdownContext = { linkTargets: new Set() };
+    collectLinkTargets(nodes, context.linkTargets);
+    const markdown = renderBlocks(nodes, context).join("\n\n");
+    return markdown ? markdown + "\n" : "";
+}
+
+function collectLinkTargets(nodes: HtmlContent[], targets: Set<string>): void {
+    for (const node of nodes) {
+        if (node.type !== "element") continue;
+        const href = node.properties.href;
+        if (node.tagName === "a" && typeof href === "string" && href.startsWith("#") && href.length > 1) {
+            targets.add(decodeURIComponent(href.slice(1)));
+        }
+        collectLinkTargets(node.children, targets);
+    }
+}
+
+// Block-level content as a list of blocks, to be separated by blank lines
+function renderBlocks(nodes: HtmlContent[], context: MarkdownContext): string[] {
+    const blocks: string[] = [];
+    let inline: HtmlContent[] = [];
+    const flush = () => {
+        // Code on its own is a code block
+        const content = inline.filter((node) => node.type !== "text" || node.value.trim());
+        if (!context.tableCell && content.length === 1 && content[0].type === "element" && content[0].tagName === "code") {
+            blocks.push(renderCodeBlock(getTextContent(content[0])));
+            inline = [];
+            return;
+        }
+        const paragraph = renderInline(inline, context).replace(/[ \t]*\n[ \t]*/g, "\n").trim();
+        if (paragraph) blocks.push(escapeLineStarts(paragraph));
+        inline = [];
+    };
+
+    for (const node of nodes) {
+        if (node.type === "comment") {
+            flush();
+            blocks.push(`<!--${node.value}-->`);
+        } else if (node.type === "element" && isBlock(node)) {
+            flush();
+            blocks.push(...renderBlock(node, context));
+        } else if (node.type !== "doctype") {
+            inline.push(node);
+        }
+    }
+    flush();
+    return blocks;
+}
+
+function renderBlock(element: HtmlElement, context: MarkdownContext): string[] {
+    const { tagName, properties } = element;
+    if (SKIPPED_TAGS.has(tagName)) return [];
+
+    const id = typeof properties.id === "string" && context.linkTargets.has(properties.id) ? properties.id : null;
+    const anchor = id ? `<a id="${escapeAttribute(id)}"></a>` : "";
+
+    const heading = /^h([1-6])$/.exec(tagName);
+    if (heading) {
+        const content = renderInline(element.children, context).replace(/\s+/g, " ").trim();
+        if (!content && !anchor) return [];
+        return [`${"#".repeat(Number(heading[1]))} ${escapeLineStarts(content)}${anchor ? ` ${anchor}` : ""}`.trimEnd()];
+    }
+
+    let blocks: string[];
+    switch (tagName) {
+        case "blockquote":
+            blocks = [prefixLines(renderBlocks(element.children, context).join("\n\n"), "> ", ">")];
+            break;
+        case "ul":
+        case "ol":
+            blocks = [renderList(element, context)];
+            break;
+        case "table":
+            blocks = renderTable(element, context);
+            break;
+        case "figure":
+            blocks = renderFigure(element, context);
+            break;
+        case "code":
+        case "pre":
+            blocks = [renderCodeBlock(getTextContent(element))];
+            break;
+        case "hr":
+            blocks = ["---"];
+            break;
+        case "p":
+            // §6.6 headings deeper than h6
+            if (properties.role === "heading") return [embedHtml(element)];
+            blocks = renderBlocks(element.children, context);
+            break;
+        case "dl":
+            return [embedHtml(element)];
+        default:
+            blocks = renderBlocks(element.children, context);
+    }
+    return anchor && blocks.length > 0 ? [anchor, ...blocks] : blocks;
+}
+
+function renderList(list: HtmlElement, context: MarkdownContext): string {
+    // Letter and roman numbering can't be expressed; those labels are kept as text.
+    // TOC is an ol without numbering of its own
+    const numbered = list.tagName === "ol" && !list.properties.type && list.properties["data-pdf-se-type"] !== "TOC";
+    let number = numbered ? Math.max(0, Number(list.properties.start) || 1) : 0;
+
+    const items: string[] = [];
+    for (const item of list.children) {
+        if (item.type !== "element") continue;
+        const label = item.children.find((child): child is HtmlElement =>
+            child.type === "element" && child.properties["data-pdf-se-type"] === "Lbl");
+        const body = item.children.filter((child) => child !== label);
+        const labelText = label ? getTextContent(label).replace(/\s+/g, " ").trim() : "";
+
+        let blocks = item.tagName === "li" ? renderBlocks(body, context) : renderBlock(item, context);
+        if (labelText && !numbered && !BULLET_LABEL.test(labelText)) {
+            const [first = "", ...rest] = blocks;
+            blocks = [`${escapeLineStarts(escapeMarkdown(labelText))} ${first}`.trimEnd(), ...rest];
+        }
+
+        const marker = numbered ? `${number++}.` : "-";
+        const indent = " ".repeat(marker.length + 1);
+        // Nested lists follow their item's text directly, keeping the list tight
+        const content = blocks.reduce((joined, block) =>
+            joined ? `${joined}${/^(?:-|\d+\.) /.test(block) ? "\n" : "\n\n"}${block}` : block, "");
+        items.push(`${marker} ${prefixLines(content, indent, "").slice(indent.length)}`.trimEnd());
+    }
+    return items.join("\n");
+}
+
+// GFM pipe table when every cell is a single line without spans; HTML otherwise
+function renderTable(table: HtmlElement, context: MarkdownContext): string[] {
+    const captions: string[] = [];
+    const rows: HtmlElement[] = [];
+    const collect = (nodes: HtmlContent[]) => {
+        for (const node of nodes) {
+            if (node.type !== "element") continue;
+            if (node.tagName === "caption") captions.push(...renderBlocks(node.children, context));
+            else if (node.tagName === "tr") rows.push(node);
+            else if (node.tagName === "thead" || node.tagName === "tbody" || node.tagName === "tfoot") collect(node.children);
+        }
+    };
+    collect(table.children);
+
+    const cells: string[][] = [];
+    let header = false;
+    for (const [index, row] of rows.entries()) {
+        const rowCells: string[] = [];
+        let allHeaders = true;
+        for (const cell of row.children) {
+            if (cell.type !== "element" || (cell.tagName !== "td" && cell.tagName !== "th")) continue;
+            if (Number(cell.properties.rowspan ?? 1) > 1 || Number(cell.properties.colspan ?? 1) > 1) {
+                return [embedHtml(table)];
+            }
+            const blocks = renderBlocks(cell.children, { ...context, tableCell: true });
+            if (blocks.length > 1 || blocks.some((block) => block.includes("\n"))) return [embedHtml(table)];
+            rowCells.push((blocks[0] ?? "").replace(/\|/g, "\\|"));
+            if (cell.tagName !== "th") allHeaders = false;
+        }
+        if (index === 0) header = allHeaders && rowCells.length > 0;
+        cells.push(rowCells);
+    }
+
+    const columns = Math.max(0, ...cells.map((row) => row.length));
+    if (columns === 0) return captions;
+    const line = (row: string[]) => `| ${Array.from({ length: columns }, (_, i) => row[i] ?? "").join(" | ")} |`;
+    // GFM tables need a header row; tables without one get an empty header
+    const lines = header ? [line(cells[0])] : [line([])];
+    lines.push(`|${" --- |".repeat(columns)}`);
+    for (const row of header ? cells.slice(1) : cells) lines.push(line(row));
+    return [...captions, lines.join("\n")];
+}
+
+function renderFigure(figure: HtmlElement, context: MarkdownContext): string[] {
+    const alt = typeof figure.properties.alt === "string" ? figure.properties.alt : undefined;
+    const caption: HtmlContent[] = [];
+    const content: HtmlContent[] = [];
+    for (const child of figure.children) {
+        if (child.type === "element" && child.tagName === "figcaption") caption.push(...child.children);
+        else content.push(child);
+    }
+
+    const blocks = renderBlocks(content, { ...context, figureAlt: alt ?? context.figureAlt });
+    if (blocks.length === 0 && alt) blocks.push(`![${escapeMarkdown(alt)}]()`);
+    return [...blocks, ...renderBlocks(caption, context)];
+}
+
+function renderInline(nodes: HtmlContent[], context: MarkdownContext): string {
+    let markdown = "";
+    for (const node of nodes) {
+        switch (node.type) {
+            case "text":
+                markdown += escapeMarkdown(node.value.replace(/\s+/g, " "));
+                break;
+            case "raw":
+                markdown += renderRaw(node, context);
+                break;
+            case "element":
+                markdown += renderInlineElement(node, context);
+                break;
+        }
+    }
+    return markdown;
+}
+
+function renderInlineElement(element: HtmlElement, context: MarkdownContext): string {
+    const { tagName, properties } = element;
+    if (SKIPPED_TAGS.has(tagName)) return "";
+    if (HTML_INLINE_TAGS.has(tagName)) return toHtml(element);
+
+    const id = typeof properties.id === "string" && context.linkTargets.has(properties.id) ? properties.id : null;
+    const anchor = id ? `<a id="${escapeAttribute(id)}"></a>` : "";
+
+    switch (tagName) {
+        case "br":
+            return "\\\n";
+        case "img":
+            return renderImage(String(properties.alt || context.figureAlt || ""), String(properties.src ?? ""));
+        case "code":
+            return anchor + renderCodeSpan(getTextContent(element));
+        case "em":
+        case "i":
+            return anchor + wrapInline(renderInline(element.children, context), "*");
+        case "strong":
+        case "b":
+            return anchor + wrapInline(renderInline(element.children, context), "**");
+        case "q":
+            return anchor + `“${renderInline(element.children, context)}”`;
+        case "a": {
+            const content = renderInline(element.children, context);
+            const href = typeof properties.href === "string" ? properties.href : "";
+            if (!href) return anchor + content;
+            return anchor + (content.trim() ? `[${content}](${formatDestination(href)})` : `<${href}>`);
+        }
+        default:
+            // Block elements inside inline content are flattened
+            return anchor + renderInline(element.children, context);
+    }
+}
+
+// Generated SVG becomes an image; other embedded markup stays HTML
+function renderRaw(node: HtmlRaw, context: MarkdownContext): string {
+    const value = node.value.trim();
+    if (value.startsWith("<svg")) {
+        return renderImage(context.figureAlt ?? "", `data:image/svg+xml;base64,${encodeBase64(value)}`);
+    }
+    // A blank line would end the HTML block
+    return value.replace(/\n\s*\n/g, "\n");
+}
+
+function renderImage(alt: string, src: string): string {
+    return `![${escapeMarkdown(alt.replace(/\s+/g, " "))}](${src ? formatDestination(src) : ""})`;
+}
+
+function renderCodeSpan(code: string): string {
+    const content = code.replace(/\s+/g, " ");
+    const longest = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+    const fence = "`".repeat(longest + 1);
+    const padding = content.startsWith("`") || content.endsWith("`") ? " " : "";
+    return `${fence}${padding}${content}${padding}${fence}`;
+}
+
+function renderCodeBlock(code: string): string {
+    const longest = Math.max(0, ...(code.match(/`{3,}/g) ?? []).map((run) => run.length));
+    const fence = "`".repeat(Math.max(3, longest + 1));
+    return `${fence}\n${code.replace(/^\n+|\s+$/g, "")}\n${fence}`;
+}
+
+function embedHtml(element: HtmlElement): string {
+    return toHtml(element).replace(/\n\s*\n/g, "\n");
+}
+
+// Emphasis markers must touch the text, so edge whitespace goes outside them
+function wrapInline(content: string, marker: string): string {
+    const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(content)!;
+    return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : content;
+}
+
+function formatDestination(url: string): string {
+    return /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url;
+}
+
+function isBlock(element: HtmlElement): boolean {
+    if (BLOCK_ELEMENTS.has(element.tagName) || SKIPPED_TAGS.has(element.tagName)) return true;
+    // Inline elements wrapping blocks (e.g. a Figure in an inline context) act as containers
+    return element.children.some((child) => child.type === "element" && isBlock(child));
+}
+
+function getTextContent(element: HtmlElement): string {
+    let content = "";
+    for (const child of element.children) {
+        if (child.type === "text") content += child.value;
+        else if (child.type === "element") content += child.tagName === "br" ? "\n" : getTextContent(child);
+    }
+    return content;
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/[\\`*_[\]<>]/g, "\\$&");
+}
+
+// Text that would start a heading, list, quote or thematic break
+function escapeLineStarts(text: string): string {
+    return text
+        .replace(/^([ \t]*)([#>+-])/gm, "$1\\$2")
+        .replace(/^([ \t]*\d+)([.)])/gm, "$1\\$2");
+}
+
+function prefixLines(text: string, prefix: string, blankPrefix: string): string {
+    return text.split("\n").map((line) => (line ? prefix + line : blankPrefix)).join("\n");
+}
+
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
+function encodeBase64(text: string): string {
+    let binary = "";
+    for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+    return btoa(binary);
+}
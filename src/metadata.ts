@@ -0,0 +1,133 @@
+/**
+ * Document metadata from the catalog's XMP Metadata stream, falling back to the
+ * trailer's Info dictionary.
+ *
+ * pdf.js's MetadataParser lowercases element names, so keys are "dc:title",
+ * "xmp:modifydate" and so on; dc:creator and dc:subject are arrays. The stream is
+ * parsed once per context.
+ */
+
+import type { PDFContext } from "./pdf_js_context.ts";
+import { MetadataParser } from "#pdfjs/core/metadata_parser.js";
+import { Dict } from "#pdfjs/core/primitives.js";
+import { stringToPDFString } from "#pdfjs/shared/util.js";
+import { formatObjectRef, reportDiagnostic } from "./diagnostics.ts";
+
+export interface DocumentMetadata {
+    /** dc:title, falling back to Info Title */
+    title?: string;
+    /** dc:creator, falling back to Info Author */
+    creators: string[];
+    subjects: string[];
+    /** dc:description, falling back to Info Subject */
+    description?: string;
+    /** pdf:Keywords, falling back to Info Keywords, split at commas and semicolons */
+    keywords: string[];
+    /** dc:language, falling back to the catalog's Lang */
+    language?: string;
+    publisher?: string;
+    rights?: string;
+    /** dc:identifier, falling back to xmpMM:DocumentID */
+    identifier?: string;
+    /** xmp:CreateDate as written in the XMP (ISO 8601), falling back to Info CreationDate */
+    created?: string;
+    /** xmp:ModifyDate, falling back to Info ModDate */
+    modified?: string;
+    /** pdf:Producer, falling back to Info Producer */
+    producer?: string;
+    /** PDF/UA part the document claims conformance to (pdfuaid:part) */
+    pdfUAPart?: number;
+}
+
+const cache = new WeakMap<PDFContext, DocumentMetadata>();
+
+export function getDocumentMetadata(context: PDFContext): DocumentMetadata {
+    let metadata = cache.get(context);
+    if (!metadata) {
+        metadata = readMetadata(context);
+        cache.set(context, metadata);
+    }
+    return metadata;
+}
+
+/** dc:title, falling back to the filename option */
+export function getDocumentTitle(context: PDFContext): string {
+    return getDocumentMetadata(context).title || context.options.filename || "PDF Document";
+}
+
+function readMetadata(context: PDFContext): DocumentMetadata {
+    const { rootDict } = context;
+    const values = new Map<string, string | string[]>();
+    // XMP Metadata
+    const metadataStream = rootDict.get("Metadata");
+    if (metadataStream && typeof metadataStream.getString === 'function') {
+        try {
+            const data = metadataStream.getString();
+            if (data) {
+                const parser = new MetadataParser(data);
+                for (const [key, value] of parser.serializable.parsedData as Map<string, string | string[]>) {
+                    values.set(key, value);
+                }
+            }
+        } catch (e) {
+            reportDiagnostic(context, "warning", "xmp-parse-failed", "Failed to parse XMP metadata",
+                { objectRef: formatObjectRef(rootDict.getRaw("Metadata")) }, e);
+        }
+    }
+
+    const first = (key: string): string | undefined => {
+        const value = values.get(key);
+        const text = (Array.isArray(value) ? value[0] : value)?.trim();
+        return text || undefined;
+    };
+    const list = (key: string): string[] => {
+        const value = values.get(key);
+        return (Array.isArray(value) ? value : value ? [value] : []).map((item) => item.trim()).filter(Boolean);
+    };
+
+    // Document information dictionary (§14.3.3), for documents without XMP or with partial XMP
+    const infoDict = context.xref.trailer?.get("Info");
+    const info = (key: string): string | undefined => {
+        const value = infoDict instanceof Dict ? infoDict.get(key) : undefined;
+        const text = typeof value === "string" ? stringToPDFString(value).trim() : "";
+        return text || undefined;
+    };
+
+    // Lang can be Name or String
+    const lang = rootDict.get("Lang");
+    const catalogLang = typeof lang === 'string' ? lang : lang?.name;
+    const author = info("Author");
+    const keywords = first("pdf:keywords") ?? info("Keywords");
+    const pdfUAPart = Number(first("pdfuaid:part"));
+
+    return {
+        title: first("dc:title") ?? info("Title"),
+        creators: values.has("dc:creator") ? list("dc:creator") : author ? [author] : [],
+        subjects: list("dc:subject"),
+        description: first("dc:description") ?? info("Subject"),
+        keywords: keywords ? keywords.split(/[,;]/).map((keyword) => keyword.trim()).filter(Boolean) : [],
+        language: first("dc:language") ?? (catalogLang || undefined),
+        publisher: first("dc:publisher"),
+        rights: first("dc:rights"),
+        identifier: first("dc:identifier") ?? first("xmpmm:documentid"),
+        created: first("xmp:createdate") ?? parsePdfDate(info("CreationDate")),
+        modified: first("xmp:modifydate") ?? parsePdfDate(info("ModDate")),
+        producer: first("pdf:producer") ?? info("Producer"),
+        pdfUAPart: Number.isInteger(pdfUAPart) && pdfUAPart > 0 ? pdfUAPart : undefined
+    };
+}
+
+// §7.9.4: D:YYYYMMDDHHmmSSOHH'mm' to ISO 8601; everything after the year is optional
+function parsePdfDate(value: string | undefined): string | undefined {
+    const match = value && /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?'?$/.exec(value);
+    if (!match) return undefined;
+    const [, year, month, day, hour, minute, second, relation, offsetHour, offsetMinute] = match;
+    if (!month || !day) return month ? `${year}-${month}` : year;
+    let date = `${year}-${month}-${day}`;
+    if (hour) {
+        date += `T${hour}:${minute ?? "00"}:${second ?? "00"}`;
+        if (relation === "+" || relation === "-") date += `${relation}${offsetHour ?? "00"}:${offsetMinute ?? "00"}`;
+        else if (relation) date += "Z";
+    }
+    return date;
+}
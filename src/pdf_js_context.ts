@@ -1,7 +1,19 @@
 import { LocalPdfManager } from "#pdfjs/core/pdf_manager.js";
 import { StructTreeRoot } from "#pdfjs/core/struct_tree.js";
 import { Dict } from "#pdfjs/core/primitives.js";
+import { PasswordException, PasswordResponses, PermissionFlag } from "#pdfjs/shared/util.js";
 import { ContentExtractor } from "./content_extractor.ts";
+import { resolveConversionOptions } from "./conversion_options.ts";
+import type { ConversionOptions, ResolvedConversionOptions } from "./conversion_options.ts";
+import { PDFFormatError, PDFPasswordError, PDFPermissionError } from "./errors.ts";
+import { createProgressState } from "./progress.ts";
+import type { ProgressState } from "./progress.ts";
+import { createLimitState } from "./resource_limits.ts";
+import type { LimitState } from "./resource_limits.ts";
+import { createAssetState } from "./assets.ts";
+import type { AssetState } from "./assets.ts";
+import { reportDiagnostic } from "./diagnostics.ts";
+import type { Diagnostic } from "./diagnostics.ts";
 import type { XRef, PDFDocument, PDFManager, StructTreeRootType } from "./types.ts";
 
 // Extend globalThis for PDFJSDev
@@ -24,11 +36,24 @@ export interface PDFContext {
     xref: XRef;
     rootDict: Dict;
     structTreeRoot: StructTreeRootType | null;
+    /** True when structTreeRoot was inferred from layout rather than read from the PDF */
+    structureInferred: boolean;
     pageContentExtractors: Map<number, ContentExtractor>;
-    filename: string;
+    /** Options the context was created with; each conversion applies its own on top */
+    baseOptions: ResolvedConversionOptions;
+    /** Options of the conversion in flight */
+    options: ResolvedConversionOptions;
+    progress: ProgressState;
+    limitState: LimitState;
+    assets: AssetState;
+    /** Problems found while opening the document and during the conversion in flight */
+    diagnostics: Diagnostic[];
+    /** Number of leading diagnostics found while opening the document, which every conversion keeps */
+    openDiagnosticCount: number;
 }
 
-export async function createPDFContext(data: Uint8Array, filename: string = "document.pdf"): Promise<PDFContext> {
+export async function createPDFContext(data: Uint8Array, options: ConversionOptions = {}): Promise<PDFContext> {
+    const resolvedOptions = resolveConversionOptions(options);
     const manager = new LocalPdfManager({
         source: data,
         evaluatorOptions: {
@@ -36,22 +61,34 @@ export async function createPDFContext(data: Uint8Array, filename: string = "doc
             isImageDecoderSupported: false,
         },
         docId: "pdf-html-conversion",
-        password: "",
+        password: resolvedOptions.password,
     });
 
     const pdfDocument = manager.pdfDocument;
 
     // Initialize document
-    pdfDocument.checkHeader();
-    pdfDocument.parseStartXRef();
-    pdfDocument.parse();
+    try {
+        pdfDocument.checkHeader();
+        pdfDocument.parseStartXRef();
+        pdfDocument.parse();
+    } catch (e) {
+        // The Encrypt dictionary is processed while parsing the xref
+        if (e instanceof PasswordException) {
+            throw new PDFPasswordError(
+                (e as { code?: number }).code === PasswordResponses.INCORRECT_PASSWORD ? "incorrect" : "required"
+            );
+        }
+        throw new PDFFormatError(`Invalid PDF: ${e instanceof Error ? e.message : String(e)}`, { cause: e });
+    }
 
     const xref = pdfDocument.xref;
     const rootDict = xref.root;
     if (!rootDict) {
-        throw new Error("Invalid PDF: No Root dictionary found");
+        throw new PDFFormatError("Invalid PDF: No Root dictionary found");
     }
 
+    const extractionPermitted = checkPermissions(pdfDocument.catalog.permissions, resolvedOptions.permissions);
+
     let structTreeRoot = null;
     const structTreeRootRef = rootDict.getRaw("StructTreeRoot");
     if (structTreeRootRef) {
@@ -62,13 +99,40 @@ export async function createPDFContext(data: Uint8Array, filename: string = "doc
 
     // Type assertions needed because PDF.js doesn't have official TypeScript declarations
     // and the actual types are close enough but not perfectly matching our interfaces
-    return {
+    const context: PDFContext = {
         manager: manager as unknown as PDFManager,
         pdfDocument: pdfDocument as unknown as PDFDocument,
         xref: xref as unknown as XRef,
         rootDict,
         structTreeRoot: structTreeRoot as StructTreeRootType | null,
+        structureInferred: false,
         pageContentExtractors: new Map(),
-        filename
+        baseOptions: resolvedOptions,
+        options: resolvedOptions,
+        progress: createProgressState(),
+        limitState: createLimitState(),
+        assets: createAssetState(),
+        diagnostics: [],
+        openDiagnosticCount: 0
     };
+    if (!extractionPermitted) {
+        reportDiagnostic(context, "warning", "permissions-restricted", PERMISSION_MESSAGE);
+    }
+    context.openDiagnosticCount = context.diagnostics.length;
+    return context;
+}
+
+const PERMISSION_MESSAGE = "PDF permissions do not allow content extraction.";
+
+// Content may be extracted when either general copying or
+// extraction for accessibility (bit 10) is granted.
+// Returns false when extraction is not permitted but the policy is "warn".
+function checkPermissions(permissions: number[] | null, policy: ResolvedConversionOptions["permissions"]): boolean {
+    if (!permissions || policy === "ignore") return true;
+    if (permissions.includes(PermissionFlag.COPY) || permissions.includes(PermissionFlag.COPY_FOR_ACCESSIBILITY)) return true;
+
+    if (policy === "enforce") {
+        throw new PDFPermissionError(PERMISSION_MESSAGE);
+    }
+    return false;
 }
@@ -0,0 +1,214 @@
+/**
+ * Plain-text rendition in structure tree order.
+ *
+ * Built on the text the traversal renders for every structure element
+ * (RenderedContent.text, with ActualText already applied), so the reading order is
+ * the logical order of the structure tree rather than the order of the content
+ * streams. Block-level elements become blocks, list items and table rows become
+ * lines, and figures and formulas are replaced by their Alt text.
+ */
+
+import type { PDFContext } from "./pdf_js_context.ts";
+import { convertToStructureText } from "./converter.ts";
+import type { ConversionOptions } from "./conversion_options.ts";
+import type { Diagnostic } from "./diagnostics.ts";
+import type { SerializableStructTreeElement, SerializableStructTreeNode } from "./structure_traversal.ts";
+
+export interface PlainTextOptions {
+    /** Between blocks (default: a blank line) */
+    blockSeparator?: string;
+    /** Between table cells (default: a tab); rows go on separate lines */
+    cellSeparator?: string;
+    /** Keep list item labels (Lbl) in front of the item text (default: true) */
+    listLabels?: boolean;
+    /** Prefix each block and line with its structure type, e.g. "[H1] " (default: false) */
+    structureMarkers?: boolean;
+}
+
+export interface TextWithDiagnostics {
+    text: string;
+    diagnostics: Diagnostic[];
+}
+
+interface TextBlock {
+    role: string;
+    text: string;
+    depth: number;
+    /** Lines of one list or table, joined by newlines instead of the block separator */
+    group?: SerializableStructTreeElement;
+}
+
+interface TextState {
+    textByNode: WeakMap<SerializableStructTreeNode, string>;
+    options: Required<PlainTextOptions>;
+    blocks: TextBlock[];
+}
+
+// Elements that start a new block; everything else is part of the surrounding text
+const BLOCK_ROLES = new Set([
+    "Document", "DocumentFragment", "Part", "Art", "Sect", "Div", "Aside", "BlockQuote", "Index",
+    "P", "H", "Title", "Caption", "BibEntry",
+    "L", "LI", "LBody", "TOC", "TOCI",
+    "Table", "THead", "TBody", "TFoot", "TR", "TH", "TD"
+]);
+
+// Replaced by their Alt text
+const ALT_ROLES = new Set(["Figure", "Formula"]);
+
+export async function convertToPlainText(
+    context: PDFContext,
+    textOptions: PlainTextOptions = {},
+    options?: ConversionOptions
+): Promise<TextWithDiagnostics> {
+    const { structureTree, textByNode, diagnostics } = await convertToStructureText(context, options);
+    const state: TextState = {
+        textByNode,
+        options: {
+            blockSeparator: textOptions.blockSeparator ?? "\n\n",
+            cellSeparator: textOptions.cellSeparator ?? "\t",
+            listLabels: textOptions.listLabels ?? true,
+            structureMarkers: textOptions.structureMarkers ?? false
+        },
+        blocks: []
+    };
+    renderContainer(structureTree, state, 0);
+
+    let text = "";
+    state.blocks.forEach((block, index) => {
+        const previous = state.blocks[index - 1];
+        if (previous) text += previous.group && previous.group === block.group ? "\n" : state.options.blockSeparator;
+        const marker = state.options.structureMarkers ? `[${block.role}]${block.text ? " " : ""}` : "";
+        text += "  ".repeat(block.depth) + marker + block.text;
+    });
+    return { text: text ? text + "\n" : "", diagnostics };
+}
+
+function renderBlock(element: SerializableStructTreeElement, state: TextState, depth: number, group?: SerializableStructTreeElement): void {
+    const { role } = element;
+    if (ALT_ROLES.has(role)) {
+        const text = normalize(element.alt ?? getInlineText(element, state));
+        // Figures without any text are only worth a line when checking the structure
+        if (text || state.options.structureMarkers) state.blocks.push({ role, text, depth, group });
+    } else if (role === "L" || role === "TOC") {
+        renderList(element, state, depth, group ?? element);
+    } else if (role === "Table") {
+        renderTable(element, state, depth);
+    } else if (hasBlockChildren(element)) {
+        renderContainer(element, state, depth, group);
+    } else {
+        addBlock(state, role, getInlineText(element, state), depth, group);
+    }
+}
+
+// Runs of inline content between the block children become blocks of the container's type
+function renderContainer(element: SerializableStructTreeElement, state: TextState, depth: number, group?: SerializableStructTreeElement): void {
+    let inline = "";
+    for (const child of element.children) {
+        if ("role" in child && (isBlock(child) || ALT_ROLES.has(child.role))) {
+            addBlock(state, element.role, inline, depth, group);
+            inline = "";
+            renderBlock(child, state, depth, group);
+        } else {
+            inline += getInlineText(child, state);
+        }
+    }
+    addBlock(state, element.role, inline, depth, group);
+}
+
+// One line per item, with nested lists indented below their item
+function renderList(list: SerializableStructTreeElement, state: TextState, depth: number, group: SerializableStructTreeElement): void {
+    for (const item of list.children) {
+        if (!("role" in item)) continue;
+        if (item.role === "L" || item.role === "TOC") {
+            renderList(item, state, depth + 1, group);
+        } else if (item.role === "Caption") {
+            addBlock(state, item.role, getInlineText(item, state), depth, group);
+        } else {
+            const nested: SerializableStructTreeElement[] = [];
+            let line = "";
+            const collect = (node: SerializableStructTreeNode) => {
+                if (!("role" in node)) {
+                    line += state.textByNode.get(node) ?? "";
+                } else if (node.role === "L" || node.role === "TOC") {
+                    nested.push(node);
+                } else if (node.role === "Lbl" && !state.options.listLabels) {
+                    return;
+                } else if (node.role === "Lbl" || !hasNestedList(node)) {
+                    // A space separates the label from the body, and paragraphs of the body
+                    line += getInlineText(node, state) + (node.role === "Lbl" || isBlock(node) ? " " : "");
+                } else {
+                    for (const child of node.children) collect(child);
+                }
+            };
+            for (const child of item.children) collect(child);
+            addBlock(state, item.role, line, depth, group);
+            for (const list of nested) renderList(list, state, depth + 1, group);
+        }
+    }
+}
+
+function renderTable(table: SerializableStructTreeElement, state: TextState, depth: number): void {
+    const visit = (element: SerializableStructTreeElement) => {
+        for (const child of element.children) {
+            if (!("role" in child)) continue;
+            if (child.role === "Caption") {
+                addBlock(state, child.role, getInlineText(child, state), depth);
+            } else if (child.role === "TR") {
+                const cells = child.children
+                    .filter((cell): cell is SerializableStructTreeElement => "role" in cell && (cell.role === "TH" || cell.role === "TD"))
+                    .map((cell) => normalize(getInlineText(cell, state)));
+                addBlock(state, child.role, cells.join(state.options.cellSeparator), depth, table, false);
+            } else {
+                visit(child);
+            }
+        }
+    };
+    visit(table);
+}
+
+function addBlock(
+    state: TextState,
+    role: string,
+    text: string,
+    depth: number,
+    group?: SerializableStructTreeElement,
+    collapse = true
+): void {
+    const content = collapse ? normalize(text) : text;
+    if (content) state.blocks.push({ role, text: content, depth, group });
+}
+
+// Text of an element, with the Alt text of any figure or formula inside it and
+// spaces around block children (the rendered text runs paragraphs together)
+function getInlineText(node: SerializableStructTreeNode, state: TextState): string {
+    if (!("role" in node)) return state.textByNode.get(node) ?? "";
+    if (ALT_ROLES.has(node.role) && node.alt !== undefined) return node.alt;
+    if (!hasAltDescendant(node) && !hasBlockChildren(node)) return state.textByNode.get(node) ?? "";
+    let text = "";
+    for (const child of node.children) {
+        const childText = getInlineText(child, state);
+        text += "role" in child && isBlock(child) ? ` ${childText} ` : childText;
+    }
+    return text;
+}
+
+function isBlock(element: SerializableStructTreeElement): boolean {
+    return BLOCK_ROLES.has(element.role) || /^H\d+$/.test(element.role) || hasBlockChildren(element);
+}
+
+function hasBlockChildren(element: SerializableStructTreeElement): boolean {
+    return element.children.some((child) => "role" in child && isBlock(child));
+}
+
+function hasNestedList(element: SerializableStructTreeElement): boolean {
+    return element.children.some((child) => "role" in child && (child.role === "L" || child.role === "TOC" || hasNestedList(child)));
+}
+
+function hasAltDescendant(element: SerializableStructTreeElement): boolean {
+    return element.children.some((child) =>
+        "role" in child && ((ALT_ROLES.has(child.role) && child.alt !== undefined) || hasAltDescendant(child)));
+}
+
+function normalize(text: string): string {
+    return text.replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,59 @@
+import type { PDFContext } from "./pdf_js_context.ts";
+import type { ConversionProgress } from "./conversion_options.ts";
+import { createLimitState } from "./resource_limits.ts";
+import { createAssetState } from "./assets.ts";
+
+/** Cancellation signal and progress counters for the conversion in flight */
+export interface ProgressState {
+    signal: AbortSignal | null;
+    counts: ConversionProgress;
+    extractedPages: Set<number>;
+}
+
+export function createProgressState(): ProgressState {
+    return {
+        signal: null,
+        counts: { pagesExtracted: 0, totalPages: 0, elementsEmitted: 0 },
+        extractedPages: new Set()
+    };
+}
+
+// Called at the start of each conversion so the timeout, resource limits, asset files and diagnostics apply to that run only
+export function beginConversion(context: PDFContext): void {
+    const { signal, timeout } = context.options;
+    const signals: AbortSignal[] = [];
+    if (signal) signals.push(signal);
+    if (timeout !== undefined && timeout > 0) signals.push(AbortSignal.timeout(timeout));
+
+    context.progress = createProgressState();
+    context.limitState = createLimitState();
+    context.assets = createAssetState();
+    // In place, so references to the list stay current; problems found while opening the document are kept
+    context.diagnostics.splice(context.openDiagnosticCount);
+    context.progress.signal = signals.length > 1 ? AbortSignal.any(signals) : signals[0] ?? null;
+    context.progress.counts.totalPages = context.pdfDocument.numPages ?? 0;
+    checkAborted(context);
+}
+
+/** Throws the abort reason (AbortError or TimeoutError) once the conversion has been cancelled */
+export function checkAborted(context: PDFContext): void {
+    context.progress.signal?.throwIfAborted();
+}
+
+export function reportPageExtracted(context: PDFContext, pageIndex: number): void {
+    const { extractedPages, counts } = context.progress;
+    // Streaming conversions may re-extract released pages; count each page once
+    if (extractedPages.has(pageIndex)) return;
+    extractedPages.add(pageIndex);
+    counts.pagesExtracted = extractedPages.size;
+    notify(context);
+}
+
+export function reportElementEmitted(context: PDFContext): void {
+    context.progress.counts.elementsEmitted++;
+    notify(context);
+}
+
+function notify(context: PDFContext): void {
+    context.options.onProgress?.({ ...context.progress.counts });
+}
@@ -0,0 +1,69 @@
+import type { PDFContext } from "./pdf_js_context.ts";
+import type { ResourceLimits } from "./conversion_options.ts";
+import { ResourceLimitError } from "./errors.ts";
+import { reportDiagnostic } from "./diagnostics.ts";
+import { comment, toHtml } from "./html_tree.ts";
+import type { HtmlContent } from "./html_tree.ts";
+
+export type ResourceLimitName = keyof ResourceLimits;
+
+/** Resource usage of the conversion in flight */
+export interface LimitState {
+    structureElements: number;
+    outputBytes: number;
+    /** Limits that caused content to be dropped */
+    truncated: Set<ResourceLimitName>;
+    /** Limits whose truncation marker has been emitted */
+    marked: Set<ResourceLimitName>;
+}
+
+const encoder = new TextEncoder();
+
+export function createLimitState(): LimitState {
+    return { structureElements: 0, outputBytes: 0, truncated: new Set(), marked: new Set() };
+}
+
+/**
+ * Returns true when value is within the limit. Otherwise throws a ResourceLimitError,
+ * or, when truncating, records the limit and returns false.
+ */
+export function checkLimit(context: PDFContext, limit: ResourceLimitName, value: number): boolean {
+    const max = context.options.limits[limit];
+    if (max === undefined || value <= max) return true;
+    if (context.options.onLimitExceeded === "error") {
+        throw new ResourceLimitError(limit, max);
+    }
+    const { truncated } = context.limitState;
+    if (!truncated.has(limit)) {
+        truncated.add(limit);
+        reportDiagnostic(context, "warning", "resource-limit-exceeded", `Output truncated: ${limit} (${max}) exceeded.`);
+    }
+    return false;
+}
+
+// Each limit is marked once, where the first content was dropped
+export function takeTruncationMarker(context: PDFContext, limit: ResourceLimitName): HtmlContent[] {
+    const { marked } = context.limitState;
+    if (marked.has(limit)) return [];
+    marked.add(limit);
+    return [comment(` pdf-truncated: ${limit} (${context.options.limits[limit]}) `)];
+}
+
+/** Number of leading pages to process: all of them unless truncated by maxPages */
+export function getProcessedPageCount(context: PDFContext): number {
+    const numPages = context.pdfDocument.numPages ?? 0;
+    return checkLimit(context, "maxPages", numPages) ? numPages : context.options.limits.maxPages ?? numPages;
+}
+
+/** Adds rendered content to the output total; false once maxOutputBytes is exceeded */
+export function addOutputBytes(context: PDFContext, nodes: HtmlContent[]): boolean {
+    if (context.options.limits.maxOutputBytes === undefined || nodes.length === 0) return true;
+    context.limitState.outputBytes += encoder.encode(toHtml(nodes)).byteLength;
+    return checkLimit(context, "maxOutputBytes", context.limitState.outputBytes);
+}
+
+// Once the element or output budget is spent the rest of the structure tree is skipped
+export function isTraversalStopped(context: PDFContext): boolean {
+    const { truncated } = context.limitState;
+    return truncated.has("maxOutputBytes") || truncated.has("maxStructureElements");
+}
@@ -0,0 +1,307 @@
+/**
+ * §14.2: Sanitization for safe mode.
+ *
+ * Output for untrusted PDFs is filtered against an allowlist of HTML, SVG and MathML
+ * elements and attributes: scripts and other active content are removed with their
+ * content, unknown elements are unwrapped, event handler attributes are dropped and
+ * URLs are limited to safe schemes. Embedded HTML and MathML associated files are
+ * parsed with a small tolerant tokenizer and filtered the same way, so only markup
+ * this module re-serializes reaches the output.
+ */
+
+import { h, text } from "./html_tree.ts";
+import type { HtmlContent, HtmlElement, HtmlProperties } from "./html_tree.ts";
+
+// Removed together with their content
+const DROPPED_ELEMENTS = new Set([
+    "script", "iframe", "frame", "frameset", "object", "embed", "applet", "template", "noscript",
+    "noembed", "noframes", "xmp", "plaintext", "base", "meta", "link", "form", "foreignobject",
+    "animate", "animatemotion", "animatetransform", "set", "handler", "listener",
+    "annotation-xml", "maction", "semantics-xml"
+]);
+
+const HTML_ELEMENTS = [
+    "a", "abbr", "address", "article", "aside", "b", "bdi", "bdo", "blockquote", "br", "button",
+    "caption", "cite", "code", "col", "colgroup", "data", "dd", "del", "details", "dfn", "div", "dl",
+    "dt", "em", "fieldset", "figcaption", "figure", "footer", "h1", "h2", "h3", "h4", "h5", "h6",
+    "header", "hr", "i", "img", "input", "ins", "kbd", "label", "legend", "li", "main", "mark", "nav",
+    "ol", "optgroup", "option", "output", "p", "picture", "pre", "q", "rp", "rt", "ruby", "s", "samp",
+    "section", "select", "small", "span", "strong", "style", "sub", "summary", "sup", "table", "tbody",
+    "td", "textarea", "tfoot", "th", "thead", "time", "tr", "u", "ul", "var", "wbr"
+];
+
+const SVG_ELEMENTS = [
+    "svg", "g", "defs", "desc", "title", "symbol", "use", "image", "switch", "path", "rect", "circle",
+    "ellipse", "line", "polyline", "polygon", "text", "tspan", "textPath", "marker", "pattern",
+    "clipPath", "mask", "linearGradient", "radialGradient", "stop", "filter", "feBlend",
+    "feColorMatrix", "feComponentTransfer", "feComposite", "feFlood", "feFuncA", "feFuncB", "feFuncG",
+    "feFuncR", "feGaussianBlur", "feMerge", "feMergeNode", "feMorphology", "feOffset", "feTile", "view"
+];
+
+const MATHML_ELEMENTS = [
+    "math", "annotation", "semantics", "menclose", "merror", "mfenced", "mfrac", "mi", "mmultiscripts",
+    "mn", "mo", "mover", "mpadded", "mphantom", "mprescripts", "mroot", "mrow", "ms", "mspace", "msqrt",
+    "mstyle", "msub", "msubsup", "msup", "mtable", "mtd", "mtext", "mtr", "munder", "munderover", "none"
+];
+
+// Lowercased name → name as written (SVG element and attribute names are case-sensitive)
+const ALLOWED_ELEMENTS = new Map([...HTML_ELEMENTS, ...SVG_ELEMENTS, ...MATHML_ELEMENTS].map((name) => [name.toLowerCase(), name]));
+
+const ALLOWED_ATTRIBUTES = new Map([
+    // HTML
+    "id", "class", "style", "lang", "dir", "title", "role", "tabindex", "hidden", "translate",
+    "href", "hreflang", "rel", "target", "download", "src", "alt", "width", "height", "loading",
+    "colspan", "rowspan", "headers", "scope", "abbr", "span", "start", "reversed", "type", "value",
+    "name", "for", "checked", "disabled", "readonly", "required", "selected", "multiple", "placeholder",
+    "maxlength", "minlength", "min", "max", "step", "pattern", "size", "rows", "cols", "wrap", "label",
+    "open", "datetime", "cite", "align", "valign",
+    // SVG
+    "xmlns", "xmlns:xlink", "xlink:href", "xlink:title", "xml:lang", "xml:space", "viewBox",
+    "preserveAspectRatio", "x", "y", "x1", "y1", "x2", "y2", "cx", "cy", "r", "rx", "ry", "d",
+    "points", "transform", "fill", "fill-opacity", "fill-rule", "stroke", "stroke-width",
+    "stroke-opacity", "stroke-linecap", "stroke-linejoin", "stroke-miterlimit", "stroke-dasharray",
+    "stroke-dashoffset", "opacity", "color", "clip-path", "clip-rule", "clipPathUnits", "mask",
+    "maskUnits", "maskContentUnits", "filter", "filterUnits", "primitiveUnits", "gradientUnits",
+    "gradientTransform", "patternUnits", "patternContentUnits", "patternTransform", "spreadMethod",
+    "offset", "stop-color", "stop-opacity", "fx", "fy", "font-family", "font-size", "font-style",
+    "font-weight", "text-anchor", "dominant-baseline", "letter-spacing", "word-spacing", "dx", "dy",
+    "rotate", "textLength", "lengthAdjust", "visibility", "display", "overflow", "vector-effect",
+    "marker-start", "marker-mid", "marker-end", "markerWidth", "markerHeight", "markerUnits", "refX",
+    "refY", "orient", "in", "in2", "result", "stdDeviation", "mode", "operator", "values",
+    "flood-color", "flood-opacity", "k1", "k2", "k3", "k4", "radius", "tableValues", "slope",
+    "intercept", "amplitude", "exponent", "focusable", "version",
+    // MathML
+    "display", "mathvariant", "mathsize", "mathcolor", "mathbackground", "displaystyle", "scriptlevel",
+    "form", "fence", "separator", "stretchy", "symmetric", "largeop", "movablelimits", "accent",
+    "accentunder", "lspace", "rspace", "linethickness", "bevelled", "notation", "open", "close",
+    "separators", "columnalign", "rowalign", "columnspan", "rowspan", "columnlines", "rowlines",
+    "frame", "depth", "voffset", "encoding", "alttext"
+].map((name) => [name.toLowerCase(), name]));
+
+// Attributes holding a URL
+const URL_ATTRIBUTES = new Set(["href", "src", "xlink:href", "cite"]);
+
+// Elements whose src may be an image data URI
+const IMAGE_ELEMENTS = new Set(["img", "image"]);
+
+const NAMESPACES: Record<string, string> = {
+    svg: "http://www.w3.org/2000/svg",
+    math: "http://www.w3.org/1998/Math/MathML"
+};
+
+const SAFE_SCHEMES = new Set(["http", "https", "mailto", "tel"]);
+
+/**
+ * Whether a URL can be emitted in safe mode: relative URLs, fragments and http(s),
+ * mailto and tel URLs, plus image data URIs where `allowImageData` is set.
+ */
+export function isSafeUrl(url: string, allowImageData = false): boolean {
+    const scheme = getUrlScheme(url);
+    if (scheme === undefined) return true;
+    if (SAFE_SCHEMES.has(scheme)) return true;
+    return allowImageData && scheme === "data" && /^data:image\//i.test(normalizeUrl(url));
+}
+
+/** Lower-case scheme of an absolute URL, as a browser reads it; undefined for relative URLs */
+export function getUrlScheme(url: string): string | undefined {
+    return /^([a-z][a-z0-9+.-]*):/i.exec(normalizeUrl(url))?.[1].toLowerCase();
+}
+
+// Browsers ignore control characters and whitespace when reading the scheme
+function normalizeUrl(url: string): string {
+    return url.replace(/[\u0000- \u007f]/g, "");
+}
+
+// CSS that runs script or loads other resources; style attributes and elements with it are dropped
+const UNSAFE_CSS = /expression\s*\(|javascript:|url\s*\(|@import|behavior\s*:|-moz-binding/i;
+
+/** Whether CSS can be emitted in safe mode: it neither runs script nor loads resources */
+export function isSafeCss(css: string): boolean {
+    return !UNSAFE_CSS.test(css);
+}
+
+/** Keeps CSS text inside a <style> element: "<" can't close the element when escaped */
+export function sanitizeCss(css: string): string {
+    return css.replace(/</g, "\\3c ");
+}
+
+/** Filters an element tree against the allowlists; raw nodes are kept as they are */
+export function sanitizeNodes(nodes: HtmlContent[]): HtmlContent[] {
+    const result: HtmlContent[] = [];
+    for (const node of nodes) {
+        if (node.type !== "element") {
+            // Comments are the converter's own markers; one containing "--" could end early
+            if (node.type === "doctype" || (node.type === "comment" && node.value.includes("--"))) continue;
+            result.push(node);
+            continue;
+        }
+        const name = localName(node.tagName).toLowerCase();
+        if (DROPPED_ELEMENTS.has(name)) continue;
+        if (name === "style" && !isSafeCss(getText(node.children))) continue;
+        const allowed = ALLOWED_ELEMENTS.get(name);
+        if (allowed === undefined) {
+            // Unknown elements are unwrapped
+            result.push(...sanitizeNodes(node.children));
+            continue;
+        }
+        node.tagName = allowed;
+        node.properties = sanitizeProperties(node);
+        node.children = name === "style"
+            ? [text(sanitizeCss(getText(node.children)))]
+            : sanitizeNodes(node.children);
+        result.push(node);
+    }
+    return result;
+}
+
+/** Parses HTML, SVG or MathML markup and filters it against the allowlists */
+export function sanitizeMarkup(markup: string): HtmlContent[] {
+    return sanitizeNodes(parseMarkup(markup));
+}
+
+function sanitizeProperties(element: HtmlElement): HtmlProperties {
+    const name = element.tagName;
+    const properties: HtmlProperties = {};
+    for (const [attribute, value] of Object.entries(element.properties)) {
+        const lower = attribute.toLowerCase();
+        // data-* and aria-* attributes carry no behaviour, but must be valid names
+        const allowed = ALLOWED_ATTRIBUTES.get(lower)
+            ?? (/^(?:data|aria)-[a-z0-9_.-]+$/.test(lower) ? lower : undefined);
+        if (allowed === undefined) continue;
+        if (URL_ATTRIBUTES.has(lower) && !isSafeUrl(String(value), IMAGE_ELEMENTS.has(name.toLowerCase()))) continue;
+        if (lower === "style" && !isSafeCss(String(value))) continue;
+        if (lower.startsWith("xmlns") && !Object.values(NAMESPACES).includes(String(value)) && value !== "http://www.w3.org/1999/xlink") continue;
+        properties[allowed] = value;
+    }
+    // Prefixes are dropped when parsing, so the root elements declare their namespace
+    if (NAMESPACES[name] && properties.xmlns === undefined && element.properties.xmlns === undefined) {
+        const prefixed = Object.keys(element.properties).some((attribute) => attribute.startsWith("xmlns:"));
+        if (prefixed) properties.xmlns = NAMESPACES[name];
+    }
+    return properties;
+}
+
+function localName(name: string): string {
+    const colon = name.indexOf(":");
+    return colon === -1 ? name : name.slice(colon + 1);
+}
+
+function getText(nodes: HtmlContent[]): string {
+    let result = "";
+    for (const node of nodes) {
+        if (node.type === "text" || node.type === "raw") result += node.value;
+        else if (node.type === "element") result += getText(node.children);
+    }
+    return result;
+}
+
+// Elements without content
+const VOID_ELEMENTS = new Set([
+    "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr"
+]);
+
+// Elements whose content is text up to the end tag
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "textarea", "title", "xmp", "iframe", "noembed", "noframes", "noscript", "plaintext"]);
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " " };
+
+/**
+ * Parses HTML, SVG or MathML markup without filtering it. A tolerant tokenizer: comments,
+ * doctypes and processing instructions are skipped, stray end tags are ignored and
+ * unclosed elements end with their parent.
+ */
+export function parseMarkup(markup: string): HtmlContent[] {
+    const root = h("root");
+    const stack: HtmlElement[] = [root];
+    const current = () => stack[stack.length - 1];
+    const tagPattern = /<(\/?)([A-Za-z][\w:.-]*)((?:\s+[^\s"'<>\/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/y;
+    let index = 0;
+    let textStart = 0;
+
+    const flushText = (end: number) => {
+        if (end > textStart) current().children.push(text(decodeEntities(markup.slice(textStart, end))));
+    };
+
+    while (index < markup.length) {
+        const lt = markup.indexOf("<", index);
+        if (lt === -1) break;
+        index = lt;
+
+        if (markup.startsWith("<!--", lt)) {
+            flushText(lt);
+            const end = markup.indexOf("-->", lt + 4);
+            index = textStart = end === -1 ? markup.length : end + 3;
+            continue;
+        }
+        if (markup.startsWith("<![CDATA[", lt)) {
+            flushText(lt);
+            const end = markup.indexOf("]]>", lt + 9);
+            current().children.push(text(markup.slice(lt + 9, end === -1 ? markup.length : end)));
+            index = textStart = end === -1 ? markup.length : end + 3;
+            continue;
+        }
+        if (markup.startsWith("<!", lt) || markup.startsWith("<?", lt)) {
+            flushText(lt);
+            const end = markup.indexOf(">", lt);
+            index = textStart = end === -1 ? markup.length : end + 1;
+            continue;
+        }
+
+        tagPattern.lastIndex = lt;
+        const match = tagPattern.exec(markup);
+        if (!match) {
+            // Not a tag: the "<" is text
+            index = lt + 1;
+            continue;
+        }
+        flushText(lt);
+        index = textStart = tagPattern.lastIndex;
+        const [, closing, tagName, attributes, selfClosing] = match;
+        const name = localName(tagName).toLowerCase();
+
+        if (closing) {
+            for (let open = stack.length - 1; open > 0; open--) {
+                if (localName(stack[open].tagName).toLowerCase() === name) {
+                    stack.length = open;
+                    break;
+                }
+            }
+            continue;
+        }
+
+        const element = h(tagName, parseAttributes(attributes));
+        current().children.push(element);
+        if (selfClosing || VOID_ELEMENTS.has(name)) continue;
+        if (RAW_TEXT_ELEMENTS.has(name)) {
+            const endPattern = new RegExp(`</${tagName.replace(/\./g, "\\.")}`, "ig");
+            endPattern.lastIndex = index;
+            const end = endPattern.exec(markup)?.index ?? -1;
+            const content = markup.slice(index, end === -1 ? markup.length : end);
+            if (content) element.children.push(text(name === "textarea" || name === "title" ? decodeEntities(content) : content));
+            const close = end === -1 ? -1 : markup.indexOf(">", end);
+            index = textStart = close === -1 ? markup.length : close + 1;
+            continue;
+        }
+        stack.push(element);
+    }
+    flushText(markup.length);
+    return root.children;
+}
+
+function parseAttributes(source: string): HtmlProperties {
+    const properties: HtmlProperties = {};
+    const attributePattern = /([^\s"'<>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+    for (const [, name, doubleQuoted, singleQuoted, unquoted] of source.matchAll(attributePattern)) {
+        const value = doubleQuoted ?? singleQuoted ?? unquoted;
+        if (!(name in properties)) properties[name] = value === undefined ? true : decodeEntities(value);
+    }
+    return properties;
+}
+
+function decodeEntities(value: string): string {
+    return value.replace(/&(?:#(\d+)|#x([0-9a-f]+)|([a-z]+));?/gi, (entity, decimal, hex, named) => {
+        if (named) return ENTITIES[named.toLowerCase()] ?? entity;
+        const codePoint = decimal ? parseInt(decimal, 10) : parseInt(hex, 16);
+        return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : "�";
+    });
+}
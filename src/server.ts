@@ -0,0 +1,258 @@
+/**
+ * HTTP conversion service.
+ *
+ * POST a PDF as the raw request body (application/pdf) or as a multipart/form-data
+ * upload to /convert. Conversion options come from query parameters; the response
+ * is the HTML, or with ?format=json (or Accept: application/json) a JSON object
+ * with the HTML, diagnostics and structure map.
+ */
+
+import http from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { deriveHtmlWithStructureTree } from "./index.ts";
+import type { ConversionOptions, ImageFormat, PermissionPolicy } from "./conversion_options.ts";
+import { PDFFormatError, PDFNotTaggedError, PDFPasswordError, PDFPermissionError, ResourceLimitError, StructureElementNotFoundError } from "./errors.ts";
+
+export interface ConversionServerOptions {
+    /** Largest accepted request body in bytes (default 50 MB) */
+    maxBodySize?: number;
+    /** Per-request conversion timeout in milliseconds (default 60 s) */
+    timeout?: number;
+    /**
+     * Options applied to every conversion. Query parameters can't override
+     * `limits` or `onLimitExceeded`, so resource limits set here always apply,
+     * and can't switch off `safeMode` when it is set here.
+     */
+    conversion?: ConversionOptions;
+}
+
+const DEFAULT_MAX_BODY_SIZE = 50 * 1024 * 1024;
+const DEFAULT_TIMEOUT = 60_000;
+
+class HttpError extends Error {
+    readonly status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = "HttpError";
+        this.status = status;
+    }
+}
+
+export function createConversionServer(options: ConversionServerOptions = {}): http.Server {
+    return http.createServer(createConversionHandler(options));
+}
+
+/** Request listener for use with an existing http.Server */
+export function createConversionHandler(
+    options: ConversionServerOptions = {}
+): (request: IncomingMessage, response: ServerResponse) => Promise<void> {
+    return async (request, response) => {
+        const url = new URL(request.url ?? "/", "http://localhost");
+        try {
+            if (url.pathname === "/health") {
+                sendText(response, 200, "text/plain; charset=utf-8", "ok\n");
+                return;
+            }
+            if (url.pathname !== "/convert") {
+                throw new HttpError(404, "Not found.");
+            }
+            if (request.method !== "POST") {
+                response.setHeader("Allow", "POST");
+                throw new HttpError(405, "Use POST to upload a PDF.");
+            }
+            await handleConvert(request, response, url, options);
+        } catch (e) {
+            sendError(response, e);
+        }
+    };
+}
+
+async function handleConvert(
+    request: IncomingMessage,
+    response: ServerResponse,
+    url: URL,
+    options: ConversionServerOptions
+): Promise<void> {
+    const body = await readBody(request, options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE);
+    const upload = getUpload(request.headers["content-type"], body);
+
+    // Stop converting when the client goes away
+    const controller = new AbortController();
+    response.on("close", () => {
+        if (!response.writableFinished) controller.abort();
+    });
+
+    const query = getQueryOptions(url.searchParams);
+    const result = await deriveHtmlWithStructureTree(upload.data, {
+        ...options.conversion,
+        ...query,
+        filename: query.filename ?? upload.filename ?? options.conversion?.filename,
+        limits: options.conversion?.limits,
+        onLimitExceeded: options.conversion?.onLimitExceeded,
+        safeMode: options.conversion?.safeMode || query.safeMode,
+        timeout: options.timeout ?? DEFAULT_TIMEOUT,
+        signal: controller.signal
+    });
+
+    if (wantsJson(request, url)) {
+        const { html, diagnostics, structureMap } = result;
+        sendText(response, 200, "application/json; charset=utf-8", JSON.stringify({ html, diagnostics, structureMap }));
+    } else {
+        sendText(response, 200, "text/html; charset=utf-8", result.html);
+    }
+}
+
+function readBody(request: IncomingMessage, maxBodySize: number): Promise<Buffer> {
+    const declared = Number(request.headers["content-length"]);
+    if (declared > maxBodySize) {
+        request.resume();
+        return Promise.reject(new HttpError(413, `Request body exceeds ${maxBodySize} bytes.`));
+    }
+
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        request.on("data", (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBodySize) {
+                reject(new HttpError(413, `Request body exceeds ${maxBodySize} bytes.`));
+                request.removeAllListeners("data");
+                request.resume();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        request.on("end", () => resolve(Buffer.concat(chunks)));
+        request.on("error", reject);
+        // A client that disconnects mid-upload never sends "end"
+        const aborted = () => reject(new HttpError(400, "Request was aborted before the body was received."));
+        request.on("aborted", aborted);
+        request.on("close", () => {
+            if (!request.complete) aborted();
+        });
+    });
+}
+
+// The raw body, or the first file part of a multipart/form-data upload
+function getUpload(contentType: string | undefined, body: Buffer): { data: Uint8Array; filename?: string } {
+    const boundary = /^multipart\/form-data\s*;.*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType ?? "");
+    if (!boundary) {
+        if (body.length === 0) throw new HttpError(400, "Request body is empty.");
+        return { data: new Uint8Array(body) };
+    }
+
+    const delimiter = Buffer.from(`--${boundary[1] ?? boundary[2]}`);
+    let start = body.indexOf(delimiter);
+    while (start !== -1) {
+        const partStart = start + delimiter.length;
+        // "--" after the delimiter closes the multipart body
+        if (body.subarray(partStart, partStart + 2).toString() === "--") break;
+        const end = body.indexOf(delimiter, partStart);
+        if (end === -1) break;
+
+        const part = body.subarray(partStart, end);
+        const headerEnd = part.indexOf("\r\n\r\n");
+        if (headerEnd !== -1) {
+            const headers = part.subarray(0, headerEnd).toString("utf8");
+            const filename = /filename="([^"]*)"/i.exec(headers)?.[1];
+            if (filename !== undefined) {
+                // Drop the CRLF that precedes the next delimiter
+                const content = part.subarray(headerEnd + 4, part.length - 2);
+                return { data: new Uint8Array(content), filename: filename || undefined };
+            }
+        }
+        start = end;
+    }
+    throw new HttpError(400, "Multipart upload contains no file.");
+}
+
+function getQueryOptions(params: URLSearchParams): ConversionOptions {
+    const options: ConversionOptions = {};
+    const filename = params.get("filename");
+    if (filename) options.filename = filename;
+    const password = params.get("password");
+    if (password !== null) options.password = password;
+    const subtree = params.get("subtree");
+    if (subtree) options.subtreeId = subtree;
+
+    const permissions = params.get("permissions");
+    if (permissions !== null) {
+        options.permissions = parseChoice<PermissionPolicy>("permissions", permissions, ["enforce", "warn", "ignore"]);
+    }
+    const imageFormat = params.get("imageFormat");
+    if (imageFormat !== null) {
+        options.imageFormat = parseChoice<ImageFormat>("imageFormat", imageFormat, ["auto", "png", "jpeg"]);
+    }
+    const jpegQuality = params.get("jpegQuality");
+    if (jpegQuality !== null) {
+        const quality = Number(jpegQuality);
+        if (!(quality >= 0 && quality <= 1)) throw new HttpError(400, "jpegQuality must be between 0 and 1.");
+        options.jpegQuality = quality;
+    }
+    const pages = params.get("pages");
+    if (pages !== null) {
+        // 1-based and inclusive, as on the command line
+        const match = /^(\d+)(?:-(\d+))?$/.exec(pages);
+        const first = match ? parseInt(match[1], 10) : 0;
+        const last = match?.[2] ? parseInt(match[2], 10) : first;
+        if (!match || first < 1 || last < first) throw new HttpError(400, "pages must look like 3 or 3-7.");
+        options.pageRange = { first: first - 1, last: last - 1 };
+    }
+
+    const flags: [string, "inferStructure" | "includeScripts" | "includeAssociatedFiles" | "includeStructureMap" | "safeMode"][] = [
+        ["inferStructure", "inferStructure"],
+        ["safeMode", "safeMode"],
+        ["scripts", "includeScripts"],
+        ["associatedFiles", "includeAssociatedFiles"],
+        ["structureMap", "includeStructureMap"]
+    ];
+    for (const [param, option] of flags) {
+        const value = params.get(param);
+        if (value === null) continue;
+        if (value !== "true" && value !== "false") throw new HttpError(400, `${param} must be true or false.`);
+        options[option] = value === "true";
+    }
+    return options;
+}
+
+function parseChoice<T extends string>(param: string, value: string, choices: T[]): T {
+    if (!(choices as string[]).includes(value)) {
+        throw new HttpError(400, `${param} must be one of ${choices.join(", ")}.`);
+    }
+    return value as T;
+}
+
+function wantsJson(request: IncomingMessage, url: URL): boolean {
+    const format = url.searchParams.get("format");
+    if (format) return format === "json";
+    return /\bapplication\/json\b/.test(request.headers.accept ?? "");
+}
+
+function sendText(response: ServerResponse, status: number, contentType: string, body: string): void {
+    response.writeHead(status, { "Content-Type": contentType, "Content-Length": Buffer.byteLength(body) });
+    response.end(body);
+}
+
+function sendError(response: ServerResponse, error: unknown): void {
+    if (response.headersSent || response.destroyed) {
+        response.destroy();
+        return;
+    }
+    const status = getErrorStatus(error);
+    const name = error instanceof Error ? error.name : "Error";
+    // Internal errors are reported without details
+    const message = status === 500 ? "Conversion failed." : error instanceof Error ? error.message : String(error);
+    sendText(response, status, "application/json; charset=utf-8", JSON.stringify({ error: { name, message } }));
+}
+
+function getErrorStatus(error: unknown): number {
+    if (error instanceof HttpError) return error.status;
+    if (error instanceof PDFFormatError || error instanceof StructureElementNotFoundError) return 400;
+    if (error instanceof PDFPermissionError) return 403;
+    if (error instanceof ResourceLimitError) return 413;
+    // The error name in the body tells the two apart
+    if (error instanceof PDFPasswordError || error instanceof PDFNotTaggedError) return 422;
+    if (error instanceof Error && error.name === "TimeoutError") return 504;
+    return 500;
+}
@@ -0,0 +1,361 @@
+/**
+ * Heuristic structure inference for untagged PDFs.
+ *
+ * Text runs are grouped into lines and blocks by position, ordered by a simple
+ * column analysis, and classified as headings (by font size relative to the body
+ * text), list items (by leading bullet glyphs or enumerators) or paragraphs.
+ * The result is a synthetic structure tree of standard structure types whose
+ * leaves carry their text as ActualText, so it can be fed through the regular
+ * structure traversal.
+ */
+
+import { PDFContext } from "./pdf_js_context.ts";
+import { Dict, Name } from "#pdfjs/core/primitives.js";
+import { ContentExtractor } from "./content_extractor.ts";
+import { getProcessedPageCount } from "./resource_limits.ts";
+import { PDFNotTaggedError } from "./errors.ts";
+import type { Ref, StructTreeRootType, TextRun } from "./types.ts";
+
+interface TextLine {
+    text: string;
+    x: number;
+    right: number;
+    y: number;
+    fontSize: number;
+    column: "left" | "right" | "full";
+}
+
+interface TextBlock {
+    kind: "paragraph" | "listItem";
+    lines: TextLine[];
+    fontSize: number;
+    pageRef: Ref | null;
+    label?: string;
+    listNumbering?: string;
+}
+
+// Bullet glyphs commonly used as list markers
+const BULLET_PATTERN = /^([•‣⁃∙▪▫■□●○◦·–—*-])\s+(?=\S)/;
+// Enumerators: "1.", "1)", "(a)", "iv." ...
+const ENUMERATOR_PATTERN = /^(\(?(?:\d{1,3}|[a-z]|[ivxlcdm]{1,6})[.)])\s+(?=\S)/i;
+
+const MAX_HEADING_LENGTH = 200;
+const MAX_HEADING_LINES = 3;
+const HEADING_SIZE_RATIO = 1.15;
+
+/** Untagged PDFs are rejected with a PDFNotTaggedError unless structure inference was requested */
+export async function ensureStructure(context: PDFContext): Promise<void> {
+    if (context.structTreeRoot) return;
+    if (!context.options.inferStructure) {
+        throw new PDFNotTaggedError();
+    }
+    context.structTreeRoot = await inferStructTreeRoot(context);
+    context.structureInferred = true;
+}
+
+export async function inferStructTreeRoot(context: PDFContext): Promise<StructTreeRootType> {
+    const blocks: TextBlock[] = [];
+    const numPages = getProcessedPageCount(context);
+
+    for (let pageIndex = 0; pageIndex < numPages; pageIndex++) {
+        const page = await context.pdfDocument.getPage(pageIndex);
+        // Layout extractors are only needed here; text ends up in ActualText
+        const extractor = new ContentExtractor(pageIndex, true);
+        await extractor.extract(page);
+
+        const lines = groupLines(extractor.getTextRuns());
+        const ordered = orderLines(lines, page.view);
+        blocks.push(...groupBlocks(ordered, page.ref ?? null));
+    }
+
+    const bodyFontSize = getBodyFontSize(blocks);
+    const headingLevels = getHeadingLevels(blocks, bodyFontSize);
+
+    const elements: Dict[] = [];
+    let currentList: { dict: Dict; kids: Dict[]; numbering: string } | null = null;
+
+    for (const block of blocks) {
+        if (block.kind === "listItem") {
+            const numbering = block.listNumbering || "None";
+            if (!currentList || currentList.numbering !== numbering) {
+                currentList = { dict: createElement("L", block.pageRef), kids: [], numbering };
+                if (numbering !== "None") {
+                    const attrs = new Dict(null);
+                    attrs.set("O", Name.get("List"));
+                    attrs.set("ListNumbering", Name.get(numbering));
+                    currentList.dict.set("A", attrs);
+                }
+                currentList.dict.set("K", currentList.kids);
+                elements.push(currentList.dict);
+            }
+            const item = createElement("LI", block.pageRef);
+            item.set("K", [
+                createElement("Lbl", block.pageRef, block.label || ""),
+                createElement("LBody", block.pageRef, getBlockText(block))
+            ]);
+            currentList.kids.push(item);
+            continue;
+        }
+
+        currentList = null;
+        const level = headingLevels.get(roundFontSize(block.fontSize));
+        const isHeading = level !== undefined && isHeadingCandidate(block);
+        const role = isHeading ? `H${level}` : "P";
+        elements.push(createElement(role, block.pageRef, getBlockText(block)));
+    }
+
+    const documentElement = createElement("Document", null);
+    documentElement.set("K", elements);
+
+    const rootDict = new Dict(null);
+    rootDict.set("Type", Name.get("StructTreeRoot"));
+    rootDict.set("K", documentElement);
+
+    return {
+        dict: rootDict,
+        roleMap: new Map(),
+        init() {}
+    };
+}
+
+function createElement(role: string, pageRef: Ref | null, actualText?: string): Dict {
+    const dict = new Dict(null);
+    dict.set("Type", Name.get("StructElem"));
+    dict.set("S", Name.get(role));
+    if (pageRef) dict.set("Pg", pageRef);
+    if (actualText !== undefined) dict.set("ActualText", toPDFTextString(actualText));
+    return dict;
+}
+
+// Encode as a UTF-16BE PDF text string so stringToPDFString round-trips it
+function toPDFTextString(text: string): string {
+    let out = "\xFE\xFF";
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        out += String.fromCharCode(code >> 8, code & 0xff);
+    }
+    return out;
+}
+
+function roundFontSize(size: number): number {
+    return Math.round(size * 2) / 2;
+}
+
+function groupLines(runs: TextRun[]): TextLine[] {
+    const sorted = runs
+        .filter((run) => run.fontSize > 0)
+        .sort((a, b) => (b.y - a.y) || (a.x - b.x));
+
+    const grouped: TextRun[][] = [];
+    for (const run of sorted) {
+        const current = grouped[grouped.length - 1];
+        if (current) {
+            const anchor = current[0];
+            const tolerance = Math.max(anchor.fontSize, run.fontSize) * 0.4;
+            if (Math.abs(anchor.y - run.y) <= tolerance) {
+                current.push(run);
+                continue;
+            }
+        }
+        grouped.push([run]);
+    }
+
+    const lines: TextLine[] = [];
+    for (const rowRuns of grouped) {
+        rowRuns.sort((a, b) => a.x - b.x);
+        // Wide horizontal gaps separate columns that share a baseline
+        let segment: TextRun[] = [];
+        for (const run of rowRuns) {
+            const prev = segment[segment.length - 1];
+            if (prev && run.x - (prev.x + prev.width) > Math.max(prev.fontSize, run.fontSize) * 2) {
+                lines.push(buildLine(segment));
+                segment = [];
+            }
+            segment.push(run);
+        }
+        if (segment.length > 0) lines.push(buildLine(segment));
+    }
+    return lines.filter((line) => line.text);
+}
+
+function buildLine(lineRuns: TextRun[]): TextLine {
+    let text = "";
+    let prev: TextRun | null = null;
+    for (const run of lineRuns) {
+        if (prev) {
+            const gap = run.x - (prev.x + prev.width);
+            const needsSpace = gap > Math.max(prev.fontSize, run.fontSize) * 0.15
+                && !/\s$/.test(text)
+                && !/^\s/.test(run.text);
+            if (needsSpace) text += " ";
+        }
+        text += run.text;
+        prev = run;
+    }
+    const last = lineRuns[lineRuns.length - 1];
+    return {
+        text: text.trim(),
+        x: lineRuns[0].x,
+        right: last.x + last.width,
+        y: lineRuns[0].y,
+        fontSize: Math.max(...lineRuns.map((run) => run.fontSize)),
+        column: "full"
+    };
+}
+
+// Reading order: top to bottom, but two-column regions are read left column first.
+// Lines that cross the page middle act as separators between column regions.
+function orderLines(lines: TextLine[], view: number[]): TextLine[] {
+    if (!view || view.length < 4) return lines;
+    const mid = (view[0] + view[2]) / 2;
+    const gutter = Math.abs(view[2] - view[0]) * 0.02;
+
+    for (const line of lines) {
+        if (line.right <= mid + gutter) line.column = "left";
+        else if (line.x >= mid - gutter) line.column = "right";
+        else line.column = "full";
+    }
+
+    const leftCount = lines.filter((line) => line.column === "left").length;
+    const rightCount = lines.filter((line) => line.column === "right").length;
+    if (leftCount < 3 || rightCount < 3) {
+        for (const line of lines) line.column = "full";
+        return lines;
+    }
+
+    const ordered: TextLine[] = [];
+    let left: TextLine[] = [];
+    let right: TextLine[] = [];
+    const flush = () => {
+        ordered.push(...left, ...right);
+        left = [];
+        right = [];
+    };
+    for (const line of lines) {
+        if (line.column === "full") {
+            flush();
+            ordered.push(line);
+        } else if (line.column === "left") {
+            left.push(line);
+        } else {
+            right.push(line);
+        }
+    }
+    flush();
+    return ordered;
+}
+
+function groupBlocks(lines: TextLine[], pageRef: Ref | null): TextBlock[] {
+    const blocks: TextBlock[] = [];
+    let current: TextBlock | null = null;
+    let prev: TextLine | null = null;
+
+    for (const line of lines) {
+        const marker = getListMarker(line.text);
+        let startNew = !current || !prev || !!marker;
+
+        if (current && prev && !startNew) {
+            const distance = prev.y - line.y;
+            const sizeChanged = Math.abs(line.fontSize - current.fontSize) > current.fontSize * 0.1;
+            startNew = line.column !== prev.column
+                || distance <= 0
+                || distance > Math.max(prev.fontSize, line.fontSize) * 1.7
+                || sizeChanged;
+        }
+
+        if (startNew) {
+            current = {
+                kind: marker ? "listItem" : "paragraph",
+                lines: [],
+                fontSize: line.fontSize,
+                pageRef
+            };
+            if (marker) {
+                current.label = marker.label;
+                current.listNumbering = marker.numbering;
+                current.lines.push({ ...line, text: line.text.slice(marker.length) });
+            } else {
+                current.lines.push(line);
+            }
+            blocks.push(current);
+        } else if (current) {
+            current.lines.push(line);
+        }
+        prev = line;
+    }
+    return blocks;
+}
+
+function getListMarker(text: string): { label: string; length: number; numbering: string } | null {
+    const bullet = text.match(BULLET_PATTERN);
+    if (bullet) {
+        return { label: bullet[1], length: bullet[0].length, numbering: "None" };
+    }
+    const enumerator = text.match(ENUMERATOR_PATTERN);
+    if (enumerator) {
+        const core = enumerator[1].replace(/[().]/g, "");
+        let numbering = "Decimal";
+        if (/^[ivxlcdm]+$/.test(core) && core.length > 1) numbering = "LowerRoman";
+        else if (/^[IVXLCDM]+$/.test(core) && core.length > 1) numbering = "UpperRoman";
+        else if (/^[a-z]$/.test(core)) numbering = "LowerAlpha";
+        else if (/^[A-Z]$/.test(core)) numbering = "UpperAlpha";
+        return { label: enumerator[1], length: enumerator[0].length, numbering };
+    }
+    return null;
+}
+
+function getBlockText(block: TextBlock): string {
+    let text = "";
+    for (const line of block.lines) {
+        if (!text) {
+            text = line.text;
+        } else if (/\p{L}-$/u.test(text) && /^\p{Ll}/u.test(line.text)) {
+            // Rejoin words hyphenated across a line break
+            text = text.slice(0, -1) + line.text;
+        } else {
+            text += " " + line.text;
+        }
+    }
+    return text;
+}
+
+// The most common font size, weighted by the amount of text set in it
+function getBodyFontSize(blocks: TextBlock[]): number {
+    const weights = new Map<number, number>();
+    for (const block of blocks) {
+        for (const line of block.lines) {
+            const size = roundFontSize(line.fontSize);
+            weights.set(size, (weights.get(size) || 0) + line.text.length);
+        }
+    }
+    let bodySize = 0;
+    let bodyWeight = -1;
+    for (const [size, weight] of weights) {
+        if (weight > bodyWeight) {
+            bodySize = size;
+            bodyWeight = weight;
+        }
+    }
+    return bodySize;
+}
+
+function isHeadingCandidate(block: TextBlock): boolean {
+    if (block.kind !== "paragraph") return false;
+    if (block.lines.length > MAX_HEADING_LINES) return false;
+    return getBlockText(block).length <= MAX_HEADING_LENGTH;
+}
+
+// Map distinct heading font sizes (largest first) to heading levels 1-6
+function getHeadingLevels(blocks: TextBlock[], bodyFontSize: number): Map<number, number> {
+    const sizes = new Set<number>();
+    for (const block of blocks) {
+        if (!isHeadingCandidate(block)) continue;
+        const size = roundFontSize(block.fontSize);
+        if (size >= bodyFontSize * HEADING_SIZE_RATIO) sizes.add(size);
+    }
+    const levels = new Map<number, number>();
+    [...sizes].sort((a, b) => b - a).forEach((size, index) => {
+        levels.set(size, Math.min(index + 1, 6));
+    });
+    return levels;
+}
@@ -1,13 +1,29 @@
 import { PDFContext } from "./pdf_js_context.ts";
 import { Dict, Name, Ref } from "#pdfjs/core/primitives.js";
+import { NameTree } from "#pdfjs/core/name_number_tree.js";
 import { ContentExtractor } from "./content_extractor.ts";
 import { ImageKind, stringToPDFString } from "#pdfjs/shared/util.js";
 import { convertToRGBA } from "#pdfjs/shared/image_utils.js";
-import { getHTMLAttributes, getCSSProperties, getBBox } from "./attribute_mapper.ts";
+import { getHTMLProperties, getCSSProperties, getBBox, serializeAttributes } from "./attribute_mapper.ts";
+import type { SerializedAttributeValue } from "./attribute_mapper.ts";
 import { getStructureAssociatedFiles } from "./associated_files.ts";
-import { convertImageXObject } from "./image_converter.ts";
+import { convertImageXObject, getImageMimeType } from "./image_converter.ts";
+import { findAsset, getImageSource } from "./assets.ts";
 import { generateSVG } from "./svg_generator.ts";
 import { createCanvas } from "#platform/canvas";
+import { checkAborted, reportElementEmitted, reportPageExtracted } from "./progress.ts";
+import { StructureElementNotFoundError } from "./errors.ts";
+import { formatObjectRef, reportDiagnostic } from "./diagnostics.ts";
+import type { DiagnosticLocation } from "./diagnostics.ts";
+import { addOutputBytes, checkLimit, getProcessedPageCount, isTraversalStopped, takeTruncationMarker } from "./resource_limits.ts";
+import { closeTag, comment, h, openTag, raw, text, toHtml } from "./html_tree.ts";
+import { sanitizeNodes } from "./sanitizer.ts";
+import { applyUrlPolicy, blockedUrlProperties } from "./url_policy.ts";
+import type { UrlUsage } from "./url_policy.ts";
+import { getScriptRuntime, nonceProperties } from "./content_security_policy.ts";
+import { getDocumentDirection, getLanguageDirection } from "./viewer_preferences.ts";
+import type { TextDirection } from "./viewer_preferences.ts";
+import type { HtmlContent, HtmlElement, HtmlProperties } from "./html_tree.ts";
 import { PageViewport } from "#pdfjs/display/display_utils.js";
 import type { PDFAttributes, PDFOperator, PDFPage } from "./types.ts";
 
@@ -23,6 +39,30 @@ interface TraversalContext {
     idState: IdState;
     structureMap: StructureMap;
     currentElementId?: string;
+    /** Exported structure tree node that children are appended to */
+    treeNode: SerializableStructTreeElement;
+    /** Text rendered for each exported structure tree node */
+    textByNode: WeakMap<SerializableStructTreeNode, string>;
+    /** Streaming output: children are handed to the sink instead of being accumulated */
+    sink?: (html: string) => Promise<void>;
+    /** Page range / subtree restriction (absent when converting the whole document) */
+    selection?: TraversalSelection;
+    /** Set once the traversal has entered the selected subtree */
+    insideSubtree?: boolean;
+    /** Number of structure elements enclosing the current one */
+    depth?: number;
+    /** Text direction of the enclosing element */
+    direction?: TextDirection;
+}
+
+interface TraversalSelection {
+    pageRange?: { first: number; last: number };
+    /** Ref key of the selected subtree's root element */
+    subtreeRootKey?: string;
+    /** Ref keys of the subtree root's ancestors, which are traversed without emitting their tags */
+    subtreeAncestorKeys: Set<string>;
+    pageIndexByRef: Map<string, number>;
+    pagesByElement: WeakMap<Dict, Set<number>>;
 }
 
 /** Mapping from structure element ID to its associated MCIDs and page */
@@ -34,6 +74,33 @@ export interface StructureElementMapping {
 /** Map of structure element IDs to their MCID mappings */
 export type StructureMap = Map<string, StructureElementMapping>;
 
+/** Structure element in the exported structure tree, aligned with the generated HTML */
+export interface SerializableStructTreeElement {
+    /** Role after role mapping */
+    role: string;
+    children: SerializableStructTreeNode[];
+    /** id of the generated HTML element (absent when the element produces no HTML element) */
+    id?: string;
+    /** Structure type before role mapping, when it differs from role */
+    originalRole?: string;
+    pageIndex?: number;
+    /** Marked content directly owned by this element, as p{refNum}R_mc{mcid} */
+    mcids?: string[];
+    attributes?: Record<string, SerializedAttributeValue>[];
+    alt?: string;
+    lang?: string;
+    mathML?: string;
+    bbox?: number[];
+}
+
+/** Marked content or object reference in the exported structure tree */
+export interface SerializableStructTreeLeaf {
+    type: "content" | "object" | "annotation";
+    id: string;
+}
+
+export type SerializableStructTreeNode = SerializableStructTreeElement | SerializableStructTreeLeaf;
+
 interface IdState {
     byRef: Map<string, string>;
     byDict: WeakMap<Dict, string>;
@@ -41,7 +108,7 @@ interface IdState {
 }
 
 interface RenderedContent {
-    html: string;
+    nodes: HtmlContent[];
     text: string;
     rootTag: string | null;
 }
@@ -99,34 +166,208 @@ function ensureGeneratedId(childOrRef: StructChild, dict: Dict, idState: IdState
     return generated;
 }
 
-// Helper to escape HTML
-function escapeHtml(unsafe: unknown): string {
-     if (typeof unsafe !== 'string') return "";
-    return unsafe
-         .replace(/&/g, "&amp;")
-         .replace(/</g, "&lt;")
-         .replace(/>/g, "&gt;")
-         .replace(/"/g, "&quot;")
-         .replace(/'/g, "&#039;");
-}
-
 
 export interface TraversalResult {
-    html: string;
+    /** Body content */
+    nodes: HtmlContent[];
     structureMap: StructureMap;
+    structureTree: SerializableStructTreeElement;
+    /** Text of each structure tree node (the traversal's RenderedContent.text), with ActualText applied */
+    textByNode: WeakMap<SerializableStructTreeNode, string>;
 }
 
-export async function traverseStructure(context: PDFContext): Promise<TraversalResult> {
+/** Pages whose content extractors are retained while streaming */
+const STREAMING_RETAINED_EXTRACTORS = 2;
+
+// Grouping roles whose children can be streamed one by one
+const STREAMABLE_ROLES = new Set(["Document", "DocumentFragment", "Part", "Art", "Sect", "Div", "NonStruct"]);
+
+/**
+ * Walk the structure tree and render it as HTML.
+ * When a sink is given, top-level content (and the content of grouping elements
+ * such as Document and Sect) is passed to it as soon as each child is rendered,
+ * and the returned nodes are empty.
+ */
+export async function traverseStructure(
+    context: PDFContext,
+    sink?: (html: string) => Promise<void>
+): Promise<TraversalResult> {
     const { structTreeRoot } = context;
-    if (!structTreeRoot) return { html: "", structureMap: new Map() };
+    const structureTree: SerializableStructTreeElement = { role: "Root", children: [] };
+    const textByNode = new WeakMap<SerializableStructTreeNode, string>();
+    if (!structTreeRoot) return { nodes: [], structureMap: new Map(), structureTree, textByNode };
 
     const children = structTreeRoot.dict.get("K");
     // Start with heading level 1 (or 0 if we want the first section to be h1)
     // Typically document root might not be a section.
     const idState: IdState = { byRef: new Map(), byDict: new WeakMap(), counter: 1 };
     const structureMap: StructureMap = new Map();
-    const rendered = await processChildren(context, children, null, { headingLevel: 1, idState, structureMap });
-    return { html: rendered.html, structureMap };
+    const selection = await createSelection(context);
+    const rendered = await processChildren(context, children, null, {
+        headingLevel: 1,
+        idState,
+        structureMap,
+        treeNode: structureTree,
+        textByNode,
+        sink,
+        selection,
+        direction: getDocumentDirection(context)
+    });
+    // §14.2: Safe mode filters the output (HTML namespace elements, attributes from the PDF)
+    const nodes = context.options.safeMode ? sanitizeNodes(rendered.nodes) : rendered.nodes;
+    textByNode.set(structureTree, rendered.text);
+    if (context.limitState.truncated.has("maxPages")) {
+        const marker = takeTruncationMarker(context, "maxPages");
+        if (sink) await sink(toHtml(marker));
+        else nodes.push(...marker);
+    }
+    return { nodes, structureMap, structureTree, textByNode };
+}
+
+async function createSelection(context: PDFContext): Promise<TraversalSelection | undefined> {
+    const { subtreeId } = context.options;
+    let { pageRange } = context.options;
+    // §14.2: Pages beyond maxPages are left out when truncating
+    const processedPages = getProcessedPageCount(context);
+    if (processedPages < (context.pdfDocument.numPages ?? 0)) {
+        const last = processedPages - 1;
+        pageRange = { first: pageRange?.first ?? 0, last: Math.min(pageRange?.last ?? last, last) };
+    }
+    if (!pageRange && !subtreeId) return undefined;
+
+    const selection: TraversalSelection = {
+        pageRange,
+        subtreeAncestorKeys: new Set(),
+        pageIndexByRef: new Map(),
+        pagesByElement: new WeakMap()
+    };
+    if (subtreeId) {
+        const rootRef = resolveStructElementRef(context, subtreeId);
+        if (!rootRef) {
+            throw new StructureElementNotFoundError(subtreeId);
+        }
+        selection.subtreeRootKey = getRefKey(rootRef);
+        selection.subtreeAncestorKeys = getAncestorKeys(context, rootRef);
+    }
+    return selection;
+}
+
+// Accepts generated pdf-se-{num}-{gen} ids and IDs from the structure tree's IDTree
+function resolveStructElementRef(context: PDFContext, id: string): Ref | null {
+    const generated = /^pdf-se-(\d+)-(\d+)$/.exec(id);
+    if (generated) {
+        return Ref.get(parseInt(generated[1], 10), parseInt(generated[2], 10));
+    }
+    const idTree = context.structTreeRoot?.dict.getRaw("IDTree");
+    if (!idTree) return null;
+    const found = new NameTree(idTree, context.xref).getRaw(id);
+    return found instanceof Ref ? found : null;
+}
+
+// Follow the P (parent) entries up to the structure tree root
+function getAncestorKeys(context: PDFContext, ref: Ref): Set<string> {
+    const keys = new Set<string>();
+    let current = getDict(context.xref.fetchIfRef<ResolvedStructElement>(ref));
+    while (current) {
+        const parentRef = current.getRaw("P");
+        if (!(parentRef instanceof Ref)) break;
+        const key = getRefKey(parentRef);
+        if (keys.has(key)) break;
+        const parent = getDict(context.xref.fetchIfRef<ResolvedStructElement>(parentRef));
+        if (!parent || (parent.get("Type") as Name | undefined)?.name === "StructTreeRoot") break;
+        keys.add(key);
+        current = parent;
+    }
+    return keys;
+}
+
+async function getSelectionPageIndex(context: PDFContext, pgRef: Ref, selection: TraversalSelection): Promise<number> {
+    const key = getRefKey(pgRef);
+    let pageIndex = selection.pageIndexByRef.get(key);
+    if (pageIndex === undefined) {
+        pageIndex = await context.pdfDocument.catalog.getPageIndex(pgRef);
+        selection.pageIndexByRef.set(key, pageIndex);
+    }
+    return pageIndex;
+}
+
+function isPageIndexSelected(pageIndex: number, selection: TraversalSelection | undefined): boolean {
+    const range = selection?.pageRange;
+    if (!range) return true;
+    return pageIndex >= range.first && pageIndex <= range.last;
+}
+
+// Pages on which an element's content lives, from the Pg entries of the element and its descendants
+async function getElementPageIndexes(
+    context: PDFContext,
+    element: Dict,
+    inheritedPageRef: Ref | null,
+    selection: TraversalSelection
+): Promise<Set<number>> {
+    const cached = selection.pagesByElement.get(element);
+    if (cached) return cached;
+
+    const pages = new Set<number>();
+    selection.pagesByElement.set(element, pages);
+
+    const pgRef = (element.getRaw("Pg") || inheritedPageRef) as Ref | null;
+    const k = element.get("K") as StructChild | StructChild[] | null;
+    const kids = Array.isArray(k) ? k : (k !== null && k !== undefined ? [k] : []);
+    for (const kidOrRef of kids) {
+        const kid = context.xref.fetchIfRef<ResolvedStructElement>(kidOrRef);
+        if (typeof kid === "number") {
+            if (pgRef) pages.add(await getSelectionPageIndex(context, pgRef, selection));
+            continue;
+        }
+        const kidDict = getDict(kid);
+        if (!kidDict) continue;
+        const kidType = (kidDict.get("Type") as Name | undefined)?.name;
+        if (kidType === "MCR" || kidType === "OBJR") {
+            const kidPgRef = (kidDict.getRaw("Pg") || pgRef) as Ref | null;
+            if (kidPgRef) pages.add(await getSelectionPageIndex(context, kidPgRef, selection));
+            continue;
+        }
+        for (const pageIndex of await getElementPageIndexes(context, kidDict, pgRef, selection)) {
+            pages.add(pageIndex);
+        }
+    }
+    return pages;
+}
+
+function isOutsideSubtree(traversalCtx: TraversalContext): boolean {
+    return !!traversalCtx.selection?.subtreeRootKey && !traversalCtx.insideSubtree;
+}
+
+// Content extractors are kept in least-recently-used order so that streaming
+// conversions can drop those of pages the traversal has moved past.
+async function getPageContentExtractor(context: PDFContext, pageIndex: number): Promise<ContentExtractor> {
+    let extractor = context.pageContentExtractors.get(pageIndex);
+    if (extractor) {
+        context.pageContentExtractors.delete(pageIndex);
+    } else {
+        extractor = new ContentExtractor(pageIndex);
+        const page = await context.pdfDocument.getPage(pageIndex);
+        await extractor.extract(page);
+        reportPageExtracted(context, pageIndex);
+    }
+    context.pageContentExtractors.set(pageIndex, extractor);
+    return extractor;
+}
+
+// Released pages are re-extracted if the structure tree returns to them later
+function releasePageContentExtractors(context: PDFContext, keep: number): void {
+    const excess = context.pageContentExtractors.size - keep;
+    if (excess <= 0) return;
+    const released = [...context.pageContentExtractors.keys()].slice(0, excess);
+    for (const pageIndex of released) {
+        context.pageContentExtractors.delete(pageIndex);
+    }
+}
+
+async function emitChunk(context: PDFContext, sink: (html: string) => Promise<void>, nodes: HtmlContent[]): Promise<void> {
+    if (context.options.safeMode) nodes = sanitizeNodes(nodes);
+    if (nodes.length > 0) await sink(toHtml(nodes));
+    releasePageContentExtractors(context, STREAMING_RETAINED_EXTRACTORS);
 }
 
 async function processChildren(
@@ -135,10 +376,10 @@ async function processChildren(
     inheritedPageRef: Ref | null,
     traversalCtx: TraversalContext
 ): Promise<RenderedContent> {
-    if (!children) return { html: "", text: "", rootTag: null };
+    if (!children) return { nodes: [], text: "", rootTag: null };
 
-    let html = "";
-    let text = "";
+    const nodes: HtmlContent[] = [];
+    let contentText = "";
     let lastChildHadActualText = false;
     if (Array.isArray(children)) {
         // Special handling for Caption elements - they must be first child (§6.3.3)
@@ -146,46 +387,60 @@ async function processChildren(
         const reordered = await reorderCaptionElements(context, children);
 
         for (const child of reordered) {
+            checkAborted(context);
+            if (isTraversalStopped(context)) break;
             // §6.5: Nested list handling - wrap nested lists in LI
             const childInfo = getElementInfo(context, child);
             const childRendered = await processStructElement(context, child, inheritedPageRef, traversalCtx);
             const childRole = childInfo.role;
+            if (childRole) reportElementEmitted(context);
+
+            if (traversalCtx.sink) {
+                await emitChunk(context, traversalCtx.sink, childRendered.nodes);
+                continue;
+            }
 
             // Check if we need to wrap nested list (parent is L, child is also L without LI wrapper)
             if (traversalCtx.parentRole === "L") {
                 if (childRole === "L") {
                     // Nested list without intermediate LI - add wrapper
-                    html += `<li>${childRendered.html}</li>`;
-                    text += childRendered.text;
+                    nodes.push(h("li", {}, childRendered.nodes));
+                    contentText += childRendered.text;
                 } else {
-                    html += childRendered.html;
-                    text += childRendered.text;
+                    nodes.push(...childRendered.nodes);
+                    contentText += childRendered.text;
                 }
             } else {
                 if (shouldInsertInlineSpace(
                     traversalCtx.parentRole,
                     childRole,
-                    text,
+                    contentText,
                     childRendered.text,
                     lastChildHadActualText,
                     childInfo.hasActualText,
                     childRendered.rootTag
                 )) {
-                    html += " ";
-                    text += " ";
+                    nodes.push(text(" "));
+                    contentText += " ";
                 }
-                html += childRendered.html;
-                text += childRendered.text;
+                nodes.push(...childRendered.nodes);
+                contentText += childRendered.text;
             }
 
             lastChildHadActualText = childInfo.hasActualText;
         }
     } else {
+        checkAborted(context);
         const childRendered = await processStructElement(context, children, inheritedPageRef, traversalCtx);
-        html += childRendered.html;
-        text += childRendered.text;
+        if (getElementInfo(context, children).role) reportElementEmitted(context);
+        if (traversalCtx.sink) {
+            await emitChunk(context, traversalCtx.sink, childRendered.nodes);
+        } else {
+            nodes.push(...childRendered.nodes);
+            contentText += childRendered.text;
+        }
     }
-    return { html, text, rootTag: null };
+    return { nodes, text: contentText, rootTag: null };
 }
 
 function shouldInsertInlineSpace(
@@ -488,7 +743,12 @@ async function processStructElement(
     const { xref, structTreeRoot } = context;
     let child = xref.fetchIfRef<ResolvedStructElement>(childOrRef);
 
-    if (child === null || child === undefined) return { html: "", text: "", rootTag: null };
+    if (child === null || child === undefined) return { nodes: [], text: "", rootTag: null };
+
+    // Content directly under an ancestor of the selected subtree is not part of it
+    if (typeof child === "number" && isOutsideSubtree(traversalCtx)) {
+        return { nodes: [], text: "", rootTag: null };
+    }
 
     // Handle Number (MCID)
     if (typeof child === 'number') {
@@ -500,13 +760,13 @@ async function processStructElement(
                  traversalCtx
              );
         }
-        return { html: `<!-- MCID ${child} (No Page) -->`, text: "", rootTag: null };
+        return { nodes: [comment(` MCID ${child} (No Page) `)], text: "", rootTag: null };
     }
 
     // Handle Dict or Stream - get the Dict
     const childDict = getDict(child);
     if (!childDict) {
-        return { html: "", text: "", rootTag: null };
+        return { nodes: [], text: "", rootTag: null };
     }
 
     // Update inheritedPageRef
@@ -519,6 +779,10 @@ async function processStructElement(
     const type = (childDict.get("Type") as Name | undefined)?.name;
     const sType = (childDict.get("S") as Name | undefined)?.name; // Structure Type
 
+    if ((type === "MCR" || type === "OBJR") && isOutsideSubtree(traversalCtx)) {
+        return { nodes: [], text: "", rootTag: null };
+    }
+
     if (type === "MCR") {
         return processMCR(
             context,
@@ -529,19 +793,69 @@ async function processStructElement(
     }
 
     if (type === "OBJR") {
-        return processOBJR(context, childDict, inheritedPageRef);
+        const { selection } = traversalCtx;
+        if (selection?.pageRange && inheritedPageRef) {
+            const pageIndex = await getSelectionPageIndex(context, inheritedPageRef, selection);
+            if (!isPageIndexSelected(pageIndex, selection)) return { nodes: [], text: "", rootTag: null };
+        }
+        return processOBJR(context, childDict, inheritedPageRef, traversalCtx);
+    }
+
+    // Subtree selection: ancestors of the selected element are traversed for their
+    // context (heading levels, list numbering) but emit no tags; other elements are skipped
+    const { selection } = traversalCtx;
+    let isSubtreeAncestor = false;
+    let insideSubtree = traversalCtx.insideSubtree;
+    if (selection?.subtreeRootKey && !insideSubtree) {
+        const key = childOrRef instanceof Ref ? getRefKey(childOrRef) : null;
+        if (key === selection.subtreeRootKey) {
+            insideSubtree = true;
+        } else if (key && selection.subtreeAncestorKeys.has(key)) {
+            isSubtreeAncestor = true;
+        } else {
+            return { nodes: [], text: "", rootTag: null };
+        }
+    }
+
+    // Page range selection: skip elements whose content lies entirely outside the range
+    if (selection?.pageRange) {
+        const pages = await getElementPageIndexes(context, childDict, inheritedPageRef, selection);
+        if (pages.size > 0 && ![...pages].some((pageIndex) => isPageIndexSelected(pageIndex, selection))) {
+            return { nodes: [], text: "", rootTag: null };
+        }
+    }
+
+    // §14.2: Resource limits
+    if (isTraversalStopped(context)) return { nodes: [], text: "", rootTag: null };
+    const depth = (traversalCtx.depth ?? 0) + 1;
+    if (!checkLimit(context, "maxNestingDepth", depth)) {
+        return { nodes: takeTruncationMarker(context, "maxNestingDepth"), text: "", rootTag: null };
+    }
+    context.limitState.structureElements++;
+    if (!checkLimit(context, "maxStructureElements", context.limitState.structureElements)) {
+        return { nodes: takeTruncationMarker(context, "maxStructureElements"), text: "", rootTag: null };
     }
 
     // Process Associated Files (AF) - Spec 4.6
-    const afResult = await getStructureAssociatedFiles(context, childDict);
+    const afResult = context.options.includeAssociatedFiles && !isSubtreeAncestor
+        ? await getStructureAssociatedFiles(context, childDict)
+        : { supplements: [] as HtmlContent[][] };
 
     // If we have a replacement (Alternative), we use it and ignore children/standard processing
     if (afResult.replacement !== undefined) {
-        let out = afResult.replacement;
-        if (afResult.supplements.length > 0) {
-            out += afResult.supplements.join("\n");
+        const replacedType = (childDict.get("S") as Name | undefined)?.name;
+        const replacementText = extractTextFromHtml(toHtml(afResult.replacement));
+        if (replacedType) {
+            const replacedRole = resolveRole(replacedType, structTreeRoot?.roleMap, getNamespaceURI(context, childDict));
+            const replacedNode: SerializableStructTreeElement = { role: replacedRole, children: [] };
+            traversalCtx.treeNode.children.push(replacedNode);
+            traversalCtx.textByNode.set(replacedNode, replacementText);
         }
-        return { html: out, text: extractTextFromHtml(afResult.replacement), rootTag: null };
+        return {
+            nodes: [...afResult.replacement, ...joinSupplements(afResult.supplements)],
+            text: replacementText,
+            rootTag: null
+        };
     }
 
     // Get Attributes and BBox
@@ -551,25 +865,27 @@ async function processStructElement(
     // Update Context with new BBox (or keep old if null? Usually structure hierarchy defines scope)
     // If this element has BBox, it overrides parent.
     // Also copy heading level
+    // Only grouping elements pass the streaming sink on (see below)
     const newTraversalCtx: TraversalContext = {
         ...traversalCtx,
-        bbox: bbox || traversalCtx.bbox
+        bbox: bbox || traversalCtx.bbox,
+        sink: undefined,
+        insideSubtree,
+        depth
     };
 
     if (!sType) {
          const children = childDict.get("K") as StructChild | StructChild[] | null;
-         let content = "";
+         let content: HtmlContent[] = [];
          let contentText = "";
          if (children) {
              const rendered = await processChildren(context, children, inheritedPageRef, newTraversalCtx);
-             content = rendered.html;
+             content = rendered.nodes;
              contentText = rendered.text;
          }
          // Append supplements
-         if (afResult.supplements.length > 0) {
-             content += afResult.supplements.join("\n");
-         }
-         return { html: content, text: contentText, rootTag: null };
+         content.push(...joinSupplements(afResult.supplements));
+         return { nodes: content, text: contentText, rootTag: null };
     }
 
     // Namespace Check (Spec 4.3.2.3)
@@ -709,42 +1025,66 @@ async function processStructElement(
     // §12.5.6 MathML: avoid edge whitespace in token elements.
     newTraversalCtx.mathmlTokenContext = isMathML ? isMathMLTokenElement(tag) : false;
 
+    // Structure tree export: attach before children so the tree follows traversal order.
+    // Private and Artifact elements produce no output and stay detached.
+    const treeNode: SerializableStructTreeElement = { role: mappedRole, children: [] };
+    if (sType !== mappedRole) treeNode.originalRole = sType;
+    if (pg) {
+        const pageIndex = await context.pdfDocument.catalog.getPageIndex(pg);
+        if (pageIndex !== -1) treeNode.pageIndex = pageIndex;
+    }
+    if (bbox) treeNode.bbox = bbox;
+    const serializedAttributes = serializeAttributes(attributes);
+    if (serializedAttributes.length > 0) treeNode.attributes = serializedAttributes;
+    if (isSubtreeAncestor) {
+        // Transparent: the selected subtree attaches to the tree root
+        treeNode.children = traversalCtx.treeNode.children;
+    } else if (mappedRole !== "Private" && mappedRole !== "Artifact") {
+        traversalCtx.treeNode.children.push(treeNode);
+    }
+    newTraversalCtx.treeNode = treeNode;
+
     if (mappedRole === "Reference") {
         const hasLink = await hasLinkChild(context, childDict);
         if (hasLink) {
             const children = childDict.get("K") as StructChild | StructChild[] | null;
-            if (!children) return { html: "", text: "", rootTag: null };
-            return await processChildren(context, children, inheritedPageRef, {
+            if (!children) return { nodes: [], text: "", rootTag: null };
+            const rendered = await processChildren(context, children, inheritedPageRef, {
                 ...newTraversalCtx,
                 parentRole: traversalCtx.parentRole
             });
+            traversalCtx.textByNode.set(treeNode, rendered.text);
+            return rendered;
         }
     }
 
     // Special Case: Link
     if (mappedRole === "Link") {
-        return await processLink(context, childOrRef, childDict, attributes, classes, inheritedPageRef, newTraversalCtx);
+        const rendered = await processLink(context, childOrRef, childDict, attributes, classes, inheritedPageRef, newTraversalCtx);
+        traversalCtx.textByNode.set(treeNode, rendered.text);
+        return rendered;
     }
 
     // HTML Attributes
-    let attrs = getHTMLAttributes(attributes);
+    const properties: HtmlProperties = getHTMLProperties(attributes);
 
     // Spec 4.3.2.2: data-pdf-se-type and data-pdf-se-type-original
     // "A data-pdf-se-type attribute with value of the PDF standard structure type's key name shall be added to the HTML element."
     // This implies the mapped role (standard type).
     if (mappedRole) {
-        attrs += ` data-pdf-se-type="${escapeHtml(mappedRole)}"`;
+        properties["data-pdf-se-type"] = mappedRole;
     }
 
     // "The processor shall add a data-pdf-se-type-original attribute with a value representing the original PDF structure element type before role mapping..."
     // Only include when it differs from the mapped role to avoid redundant attributes.
     if (sType && sType !== mappedRole) {
-        attrs += ` data-pdf-se-type-original="${escapeHtml(sType)}"`;
+        properties["data-pdf-se-type-original"] = sType;
     }
 
     // Dynamic Heading attributes
     if (headingAriaLevel !== null) {
-        attrs += ` role="heading" aria-level="${headingAriaLevel}"`;
+        properties.role = "heading";
+        properties["aria-level"] = headingAriaLevel;
     }
 
     // Standard Attributes
@@ -759,30 +1099,36 @@ async function processStructElement(
     let elementId: string;
     if (id) {
         elementId = stringToPDFString(id);
-        attrs += ` id="${escapeHtml(elementId)}"`;
     } else {
         elementId = ensureGeneratedId(childOrRef, childDict, traversalCtx.idState);
-        attrs += ` id="${escapeHtml(elementId)}"`;
     }
+    properties.id = elementId;
 
     // Set currentElementId for tracking MCIDs in children
     newTraversalCtx.currentElementId = elementId;
+    // NonStruct is unwrapped, so there is no HTML element carrying the id
+    if (mappedRole !== "NonStruct") treeNode.id = elementId;
 
-    if (lang) attrs += ` lang="${escapeHtml(stringToPDFString(lang))}"`;
+    if (lang) {
+        const elementLang = stringToPDFString(lang);
+        properties.lang = treeNode.lang = elementLang;
+        newTraversalCtx.direction = applyLanguageDirection(properties, elementLang, traversalCtx.direction);
+    }
 
     let altStr = "";
     if (alt) {
         altStr = stringToPDFString(alt);
-        attrs += ` alt="${escapeHtml(altStr)}"`;
+        treeNode.alt = altStr;
+        properties.alt = altStr;
     }
 
     if (title) {
-        attrs += ` title="${escapeHtml(stringToPDFString(title))}"`;
+        properties.title = stringToPDFString(title);
     }
 
     const pronunciationHint = getPronunciationHint(attributes);
     if (pronunciationHint) {
-        attrs += ` data-pdf-pronunciation="${escapeHtml(pronunciationHint)}"`;
+        properties["data-pdf-pronunciation"] = pronunciationHint;
     }
 
     // §6.5: Handle list continuation (ContinuedFrom attribute)
@@ -791,20 +1137,20 @@ async function processStructElement(
         if (continuedFrom) {
             // Note: Full implementation would track list IDs and item counts
             // This adds data attribute for potential JavaScript handling
-            attrs += ` data-continued-from="${escapeHtml(String(continuedFrom))}"`;
+            properties["data-continued-from"] = String(continuedFrom);
         }
     }
     if (mappedRole === "L" && tag === "ol" && listStart && listStart > 1) {
-        attrs += ` start="${listStart}"`;
+        properties.start = listStart;
     }
     if (mappedRole === "L" && tag === "ol" && listType) {
-        attrs += ` type="${listType}"`;
+        properties.type = listType;
     }
 
     // Classes
     if (classes) {
         const classStr = extractClassNames(classes).join(" ");
-        if (classStr) attrs += ` class="${escapeHtml(classStr)}"`;
+        if (classStr) properties.class = classStr;
     }
 
     // CSS Properties (Inline Style)
@@ -827,7 +1173,7 @@ async function processStructElement(
             : "display:inline-block; vertical-align: top; margin-right: 0.4em;";
     }
 
-    if (style) attrs += ` style="${escapeHtml(style)}"`;
+    if (style) properties.style = style;
 
     if (mappedRole === "Figure" || mappedRole === "Formula") {
         newTraversalCtx.preferVector = true;
@@ -836,43 +1182,72 @@ async function processStructElement(
         newTraversalCtx.imageAlt = altStr;
     }
 
+    // Streaming: grouping elements emit their tags around their children's chunks
+    const { sink } = traversalCtx;
+    if (sink && !actualText && !expansionText && !isMathML && !isHtmlNamespace && STREAMABLE_ROLES.has(mappedRole)) {
+        let element: HtmlElement | null = h(tag, properties);
+        if (context.options.safeMode) {
+            // The marker child tells an unwrapped element (children kept) from a dropped one
+            const [sanitized] = sanitizeNodes([h(tag, properties, [text("")])]);
+            if (!sanitized) return { nodes: [], text: "", rootTag: null };
+            element = sanitized.type === "element" ? sanitized : null;
+        }
+        const wrapper = element && mappedRole !== "NonStruct" && !isSubtreeAncestor ? element : null;
+        if (wrapper) await sink(openTag(wrapper));
+        const children = childDict.get("K") as StructChild | StructChild[] | null;
+        await processChildren(context, children, inheritedPageRef, { ...newTraversalCtx, sink });
+        if (afResult.supplements.length > 0) {
+            await emitChunk(context, sink, joinSupplements(afResult.supplements));
+        }
+        if (wrapper) await sink(closeTag(wrapper));
+        return { nodes: [], text: "", rootTag: wrapper ? tag : null };
+    }
+
     // Process Content/Children
-    let content = "";
+    let content: HtmlContent[];
     let contentText = "";
     if (actualText) {
         contentText = stringToPDFString(actualText);
-        content = escapeHtml(contentText);
+        content = [text(contentText)];
     } else {
         const children = childDict.get("K") as StructChild | StructChild[] | null;
         const rendered = await processChildren(context, children, inheritedPageRef, newTraversalCtx);
-        content = rendered.html;
+        content = rendered.nodes;
         contentText = rendered.text;
     }
 
     // Expansion Text (E) -> <abbr>
     if (expansionText) {
-        const eVal = escapeHtml(stringToPDFString(expansionText));
-        content = `<abbr title="${eVal}">${content}</abbr>`;
+        content = [h("abbr", { title: stringToPDFString(expansionText) }, content)];
     }
 
     // §4.6.4: Append supplemental associated files when present.
-    if (afResult.supplements.length > 0) {
-        content += afResult.supplements.join("\n");
-    }
+    content.push(...joinSupplements(afResult.supplements));
+    traversalCtx.textByNode.set(treeNode, contentText);
 
     // Output
-    if (mappedRole === "NonStruct") {
-        return { html: content, text: contentText, rootTag: null };
+    if (mappedRole === "NonStruct" || isSubtreeAncestor) {
+        return { nodes: content, text: contentText, rootTag: null };
     }
     if (mappedRole === "Private" || mappedRole === "Artifact") {
-        return { html: "", text: "", rootTag: null };
+        return { nodes: [], text: "", rootTag: null };
     }
 
     if (tag === "img" || tag === "br" || tag === "hr" || tag === "input") {
-        return { html: `<${tag}${attrs}/>`, text: "", rootTag: tag };
+        return { nodes: [h(tag, properties)], text: "", rootTag: tag };
     }
 
-    return { html: `<${tag}${attrs}>${content}</${tag}>`, text: contentText, rootTag: tag };
+    return { nodes: [h(tag, properties, content)], text: contentText, rootTag: tag };
+}
+
+// Supplemental associated files follow the element content, separated by newlines
+function joinSupplements(supplements: HtmlContent[][]): HtmlContent[] {
+    const nodes: HtmlContent[] = [];
+    supplements.forEach((supplement, index) => {
+        if (index > 0) nodes.push(text("\n"));
+        nodes.push(...supplement);
+    });
+    return nodes;
 }
 
 // ... existing helpers ...
@@ -963,13 +1338,7 @@ async function fetchTextForMCID(context: PDFContext, mcid: number, pgRef: Ref |
     const pageIndex = await context.pdfDocument.catalog.getPageIndex(pgRef);
     if (pageIndex === -1) return "";
 
-    let extractor = context.pageContentExtractors.get(pageIndex);
-    if (!extractor) {
-        extractor = new ContentExtractor(pageIndex);
-        const page = await context.pdfDocument.getPage(pageIndex);
-        await extractor.extract(page);
-        context.pageContentExtractors.set(pageIndex, extractor);
-    }
+    const extractor = await getPageContentExtractor(context, pageIndex);
 
     return extractor.getText(mcid as number);
 }
@@ -1221,7 +1590,7 @@ async function processMCR(
     const mcid = mcr.get("MCID");
     const pgRef = (mcr.getRaw("Pg") || inheritedPageRef) as Ref | null;
 
-    if (!Number.isInteger(mcid) || !pgRef) return { html: "", text: "", rootTag: null };
+    if (!Number.isInteger(mcid) || !pgRef) return { nodes: [], text: "", rootTag: null };
 
     return await fetchContentForMCID(context, mcid as number, pgRef, traversalCtx);
 }
@@ -1241,13 +1610,16 @@ async function fetchContentForMCID(
     pgRef: Ref,
     traversalCtx: TraversalContext
 ): Promise<RenderedContent> {
+    checkAborted(context);
+    if (isTraversalStopped(context)) return { nodes: [], text: "", rootTag: null };
     const { bbox, imageAlt, preferVector, mathmlTokenContext: trimText, currentElementId, structureMap } = traversalCtx;
     const pageIndex = await context.pdfDocument.catalog.getPageIndex(pgRef);
+    if (!isPageIndexSelected(pageIndex, traversalCtx.selection)) return { nodes: [], text: "", rootTag: null };
 
     // Record the MCID in the structure map for the current element
     // Use PDF.js format: p{refNum}R_mc{mcid} to match the text layer element IDs
+    const mcidKey = `p${pgRef.num}R_mc${mcid}`;
     if (currentElementId && pageIndex !== -1) {
-        const mcidKey = `p${pgRef.num}R_mc${mcid}`;
         let mapping = structureMap.get(currentElementId);
         if (!mapping) {
             mapping = { mcids: [], page: pageIndex };
@@ -1258,18 +1630,23 @@ async function fetchContentForMCID(
         }
     }
 
-    if (pageIndex === -1) return { html: "", text: "", rootTag: null };
-
-    let extractor = context.pageContentExtractors.get(pageIndex);
-    if (!extractor) {
-        extractor = new ContentExtractor(pageIndex);
-        const page = await context.pdfDocument.getPage(pageIndex);
-        await extractor.extract(page);
-        context.pageContentExtractors.set(pageIndex, extractor);
+    const leaf: SerializableStructTreeLeaf = { type: "content", id: mcidKey };
+    if (pageIndex !== -1) {
+        const { treeNode } = traversalCtx;
+        treeNode.children.push(leaf);
+        treeNode.mcids = treeNode.mcids || [];
+        if (!treeNode.mcids.includes(mcidKey)) {
+            treeNode.mcids.push(mcidKey);
+        }
+        if (treeNode.pageIndex === undefined) treeNode.pageIndex = pageIndex;
     }
 
-    let html = "";
-    let text = "";
+    if (pageIndex === -1) return { nodes: [], text: "", rootTag: null };
+
+    const extractor = await getPageContentExtractor(context, pageIndex);
+
+    const nodes: HtmlContent[] = [];
+    let contentText = "";
     let hasImages = false;
 
     // Images
@@ -1279,32 +1656,35 @@ async function fetchContentForMCID(
         let dataUri = "";
         let width: number | undefined;
         let height: number | undefined;
-        const altValue = imageAlt ? escapeHtml(imageAlt) : "";
-        const altAttr = ` alt="${altValue}"`;
-        const fallbackAltAttr = imageAlt ? altAttr : ` alt="(Conversion Failed)"`;
+        const alt = imageAlt || "";
+        const fallbackAlt = imageAlt || "(Conversion Failed)";
 
         const bboxDims = bbox && bbox.length === 4
             ? calculateImageDimensions(Math.abs(bbox[2] - bbox[0]), Math.abs(bbox[3] - bbox[1]))
             : null;
 
         if (img.type === "XObject" && img.name) {
-            const imageData = extractor.getImageData(img.name);
+            // The operator's size is the XObject's Width and Height, so the limit is checked
+            // before the image data is read
+            const withinLimit = isImageWithinLimit(context, img.width, img.height);
+            const imageData = withinLimit ? extractor.getImageData(img.name) : null;
             if (imageData) {
-                const rendered = imageDataToDataUri(imageData);
+                const rendered = imageDataToDataUri(imageData, context);
                 if (rendered) {
-                    dataUri = rendered.dataUri;
+                    dataUri = await getImageSource(context, rendered.dataUri);
                     width = rendered.width;
                     height = rendered.height;
                 }
             }
 
-            if (!dataUri) {
+            if (!dataUri && withinLimit) {
                 const page = await context.pdfDocument.getPage(pageIndex);
                 let resources = null;
                 try {
                     resources = await page.resources;
                 } catch (e) {
-                    console.warn("Could not load page resources", e);
+                    reportDiagnostic(context, "warning", "page-resources-failed", "Could not load page resources",
+                        { elementId: currentElementId, pageIndex }, e);
                 }
 
                 if (resources && resources.get("XObject")) {
@@ -1319,9 +1699,14 @@ async function fetchContentForMCID(
                         }
 
                         if (xObj) {
-                            dataUri = await convertImageXObject(context, xObj, pgRef);
                             const pdfWidth = xObj.get("Width");
                             const pdfHeight = xObj.get("Height");
+                            dataUri = findAsset(context, xObjRef) ?? "";
+                            if (!dataUri && isImageWithinLimit(context, pdfWidth, pdfHeight)) {
+                                const converted = await convertImageXObject(context, xObj, pgRef,
+                                    { elementId: currentElementId, pageIndex, objectRef: formatObjectRef(xObjRef) });
+                                dataUri = await getImageSource(context, converted, xObjRef);
+                            }
                             if (pdfWidth && pdfHeight) {
                                 const dims = calculateImageDimensions(pdfWidth, pdfHeight);
                                 width = dims.width;
@@ -1342,35 +1727,42 @@ async function fetchContentForMCID(
             }
 
             if (dataUri && width && height) {
-                html += `<img src="${dataUri}" width="${width}" height="${height}"${altAttr} />`;
+                nodes.push(h("img", { src: dataUri, width, height, alt }));
             } else if (dataUri) {
-                html += `<img src="${dataUri}"${altAttr} />`;
+                nodes.push(h("img", { src: dataUri, alt }));
             } else if (width && height) {
-                html += `<img src="placeholder.png" width="${width}" height="${height}"${fallbackAltAttr} />`;
+                nodes.push(h("img", { src: "placeholder.png", width, height, alt: fallbackAlt }));
             }
         } else if (img.type === "Inline" && img.data) {
-            dataUri = await convertImageXObject(context, img.data, pgRef);
+            const pdfWidth = img.data.get?.("Width") || img.data.Width || 100;
+            const pdfHeight = img.data.get?.("Height") || img.data.Height || 100;
+            if (isImageWithinLimit(context, pdfWidth, pdfHeight)) {
+                const converted = await convertImageXObject(context, img.data, pgRef, { elementId: currentElementId, pageIndex });
+                dataUri = await getImageSource(context, converted);
+            }
             if (bboxDims) {
                 width = bboxDims.width;
                 height = bboxDims.height;
             } else {
-                const pdfWidth = img.data.get?.("Width") || img.data.Width || 100;
-                const pdfHeight = img.data.get?.("Height") || img.data.Height || 100;
                 const dims = calculateImageDimensions(pdfWidth, pdfHeight);
                 width = dims.width;
                 height = dims.height;
             }
 
             if (dataUri && width && height) {
-                html += `<img src="${dataUri}" width="${width}" height="${height}"${altAttr} />`;
+                nodes.push(h("img", { src: dataUri, width, height, alt }));
             } else if (dataUri) {
-                html += `<img src="${dataUri}"${altAttr} />`;
+                nodes.push(h("img", { src: dataUri, alt }));
             } else if (width && height) {
-                html += `<img src="placeholder.png" width="${width}" height="${height}"${fallbackAltAttr} />`;
+                nodes.push(h("img", { src: "placeholder.png", width, height, alt: fallbackAlt }));
             }
         }
     }
 
+    if (context.limitState.truncated.has("maxImagePixels")) {
+        nodes.push(...takeTruncationMarker(context, "maxImagePixels"));
+    }
+
     // §9.7: Apply marked content properties
     const props = extractor.getProperties(mcid);
     let rawText = "";
@@ -1386,55 +1778,62 @@ async function fetchContentForMCID(
     const trailingWhitespace = trimText ? "" : rawTrailing;
     const coreText = rawCore;
     const renderedText = trimText ? rawCore : rawText;
-    const escapedLeading = escapeHtml(leadingWhitespace);
-    const escapedCore = escapeHtml(coreText);
-    const escapedTrailing = escapeHtml(trailingWhitespace);
-    const escapedText = escapeHtml(renderedText);
 
     const hasVector = !!(bbox && extractor.hasVectorOperators(mcid));
     const suppressText = !!(preferVector && !hasImages && hasVector);
 
     // Wrap with span if Lang property exists
-    if (escapedText && !suppressText) {
+    if (renderedText && !suppressText) {
+        if (leadingWhitespace) nodes.push(text(leadingWhitespace));
         if (props?.Lang) {
-            html += escapedLeading;
-            html += `<span lang="${escapeHtml(props.Lang)}"`;
+            const spanProperties: HtmlProperties = { lang: props.Lang };
+            applyLanguageDirection(spanProperties, props.Lang, traversalCtx.direction);
             if (props.Alt) {
-                html += ` title="${escapeHtml(props.Alt)}"`;
+                spanProperties.title = props.Alt;
             }
-            html += `>${escapedCore}</span>`;
-            html += escapedTrailing;
-        } else {
-            html += escapedLeading + escapedCore + escapedTrailing;
+            nodes.push(h("span", spanProperties, coreText ? [text(coreText)] : []));
+        } else if (coreText) {
+            nodes.push(text(coreText));
         }
-        text += renderedText;
-    } else if (props?.Alt && !escapedText) {
+        if (trailingWhitespace) nodes.push(text(trailingWhitespace));
+        contentText += renderedText;
+    } else if (props?.Alt && !renderedText) {
         // Alt text for non-text content
-        html += `<span title="${escapeHtml(props.Alt)}"></span>`;
+        nodes.push(h("span", { title: props.Alt }));
     }
 
     // Vector Graphics Rendering (§9.3)
-    if (!hasImages && hasVector && (preferVector || !escapedText)) {
+    if (!hasImages && hasVector && (preferVector || !renderedText)) {
         try {
             // Get operators for this MCID and render as SVG
             const operators = extractor.getOperators(mcid);
             if (operators && operators.length > 0) {
-    const svg = renderVectorGraphics(operators, bbox);
+                const svg = renderVectorGraphics(context, operators, bbox, { elementId: currentElementId, pageIndex });
                 if (svg) {
-                    html += svg;
+                    nodes.push(raw(svg));
                 }
             }
         } catch (e) {
-            console.warn("Failed to render vector graphic for MCID", mcid, e);
+            reportDiagnostic(context, "error", "vector-graphic-failed", `Failed to render vector graphic for MCID ${mcid}`,
+                { elementId: currentElementId, pageIndex }, e);
             // Fallback to placeholder
-            html += `<span data-pdf-vector="true">[Vector Graphic]</span>`;
+            nodes.push(h("span", { "data-pdf-vector": "true" }, [text("[Vector Graphic]")]));
         }
     }
 
-    return { html, text, rootTag: null };
+    if (!addOutputBytes(context, nodes)) {
+        return { nodes: takeTruncationMarker(context, "maxOutputBytes"), text: "", rootTag: null };
+    }
+    traversalCtx.textByNode.set(leaf, contentText);
+    return { nodes, text: contentText, rootTag: null };
 }
 
-async function renderPageRegion(page: PDFPage, bbox: number[]): Promise<string> {
+async function renderPageRegion(
+    context: PDFContext,
+    page: PDFPage,
+    bbox: number[],
+    location: DiagnosticLocation
+): Promise<string> {
     // bbox is [LLx, LLy, URx, URy] (PDF coordinates)
     const scale = 2.0; // Higher quality
 
@@ -1460,7 +1859,8 @@ async function renderPageRegion(page: PDFPage, bbox: number[]): Promise<string>
     // Limit canvas size to avoid skia errors (e.g. 4096px)
     const MAX_DIM = 4096;
     if (w > MAX_DIM || h > MAX_DIM) {
-        console.warn(`Vector graphic size too large (${w}x${h}), clamping to ${MAX_DIM}.`);
+        reportDiagnostic(context, "warning", "vector-graphic-clamped",
+            `Vector graphic size too large (${w}x${h}), clamping to ${MAX_DIM}.`, location);
         if (w > MAX_DIM) w = MAX_DIM;
         if (h > MAX_DIM) h = MAX_DIM;
     }
@@ -1484,7 +1884,12 @@ async function renderPageRegion(page: PDFPage, bbox: number[]): Promise<string>
 }
 
 // §9.3: Render vector graphics as SVG
-function renderVectorGraphics(operators: PDFOperator[], bbox: number[]): string {
+function renderVectorGraphics(
+    context: PDFContext,
+    operators: PDFOperator[],
+    bbox: number[],
+    location: DiagnosticLocation
+): string {
     if (!bbox || bbox.length < 4) return "";
 
     const [x1, y1, x2, y2] = bbox;
@@ -1512,20 +1917,31 @@ function renderVectorGraphics(operators: PDFOperator[], bbox: number[]): string
             useContentBox: true
         });
     } catch (e) {
-        console.warn("SVG generation failed:", e);
+        reportDiagnostic(context, "error", "svg-generation-failed", "SVG generation failed", location, e);
         return "";
     }
 }
 
-async function processOBJR(context: PDFContext, objr: Dict, inheritedPageRef: Ref | null): Promise<RenderedContent> {
+async function processOBJR(
+    context: PDFContext,
+    objr: Dict,
+    inheritedPageRef: Ref | null,
+    traversalCtx: TraversalContext
+): Promise<RenderedContent> {
     const objRef = objr.getRaw("Obj");
-    if (!objRef) return { html: "", text: "", rootTag: null };
+    if (!objRef) return { nodes: [], text: "", rootTag: null };
 
     const obj = await context.xref.fetchIfRefAsync(objRef);
-    if (!obj) return { html: "", text: "", rootTag: null };
+    if (!obj) return { nodes: [], text: "", rootTag: null };
 
     const subtype = obj.get("Subtype")?.name;
 
+    // XObjects are "object" leaves, everything else is an annotation
+    traversalCtx.treeNode.children.push({
+        type: subtype === "Image" || subtype === "Form" ? "object" : "annotation",
+        id: objRef instanceof Ref ? getRefKey(objRef) : ""
+    });
+
     if (subtype === "Widget") {
         // §10.1: Field attributes can be inherited from parent field dictionaries.
         const ftObj = await getInheritableFieldValue(context, obj, "FT");
@@ -1535,24 +1951,24 @@ async function processOBJR(context: PDFContext, objr: Dict, inheritedPageRef: Re
 
         let tag = "input";
         let type = "text";
-        let extraAttrs = "";
-        let content = "";
+        const properties: HtmlProperties = {};
+        let content: HtmlContent[] = [];
         let contentText = "";
 
         // Common Attributes
         const t = await getInheritableFieldValue(context, obj, "T");
-        if (t) extraAttrs += ` name="${escapeHtml(stringToPDFString(t))}"`;
+        if (t) properties.name = stringToPDFString(t);
 
         // Generated ID
         const objId = objr.getRaw("Obj");
         // Use Ref if available, else random
         const widgetId = "widget_" + (objId ? objId.toString() : Math.random().toString(36).substr(2, 9));
-        extraAttrs += ` id="${widgetId}"`;
+        properties.id = widgetId;
 
         // Additional Actions (AA) - Field Scripts
         // Spec 11.4: "Extract from form field's additional-actions dictionary (AA)"
-        const aa = await getInheritableFieldValue(context, obj, "AA");
-        let script = "";
+        const aa = context.options.includeScripts ? await getInheritableFieldValue(context, obj, "AA") : undefined;
+        let script: HtmlContent[] = [];
         if (aa && aa instanceof Dict) {
              // Iterate common events: K (Keystroke), F (Format), V (Validate), C (Calculate), etc.
              // We can output a script block that attaches listeners.
@@ -1595,8 +2011,13 @@ async function processOBJR(context: PDFContext, objr: Dict, inheritedPageRef: Re
                          } else if (key === "C") {
                              // Calculate - handled by runtime calculateNow()
                              jsContent += `// Calculate event - triggered by calculateNow()\n`;
-                             // Store calculation expression as data attribute
-                             extraAttrs += ` data-calculate="${escapeHtml(jsStr).replace(/"/g, '&quot;')}"`;
+                             if (getScriptRuntime(context) === "strict") {
+                                 // Registered as a function, so the runtime doesn't need eval
+                                 jsContent += `(window.pdfCalculations = window.pdfCalculations || {})['${widgetId}'] = function(event) { ${jsStr} };\n`;
+                             } else {
+                                 // Store calculation expression as data attribute
+                                 properties["data-calculate"] = jsStr;
+                             }
                          } else if (evt === "focus" || evt === "blur" || evt === "mousedown" || evt === "mouseup" || evt === "mouseenter" || evt === "mouseleave") {
                              jsContent += `document.getElementById('${widgetId}').addEventListener('${evt}', function(event) { ${jsStr} });\n`;
                          }
@@ -1605,28 +2026,28 @@ async function processOBJR(context: PDFContext, objr: Dict, inheritedPageRef: Re
              }
 
              if (jsContent) {
-                 script = `<script>\n${jsContent}\n</script>`;
+                 script = [h("script", nonceProperties(context), [text(`\n${jsContent}\n`)])];
              }
         }
 
         const maxLen = await getInheritableFieldValue(context, obj, "MaxLen");
-        if (typeof maxLen === 'number') extraAttrs += ` maxlength="${maxLen}"`;
+        if (typeof maxLen === 'number') properties.maxlength = maxLen;
 
         // §10.2: Bit 25 - Comb (character separation for text fields)
         // Only applies to single-line text fields with MaxLen
         if (ft === "Tx" && (flags & 16777216) && maxLen && !(flags & 4096) && !(flags & 8192) && !(flags & 1048576)) {
             // Calculate letter-spacing based on field width and max length
             // Use 1em spacing as reasonable default
-            extraAttrs += ` style="letter-spacing: 1em; text-align: center"`;
+            properties.style = "letter-spacing: 1em; text-align: center";
         }
 
         // Flags
         // Bit 1: ReadOnly
-        if (flags & 1) extraAttrs += ` readonly`;
+        if (flags & 1) properties.readonly = true;
         // Bit 2: Required
-        if (flags & 2) extraAttrs += ` required`;
+        if (flags & 2) properties.required = true;
         // Bit 3: NoExport
-        if (flags & 4) extraAttrs += ` data-pdf-no-export="true"`;
+        if (flags & 4) properties["data-pdf-no-export"] = "true";
 
         if (ft === "Btn") {
             if (flags & 32768) { // Radio
@@ -1634,7 +2055,7 @@ async function processOBJR(context: PDFContext, objr: Dict, inheritedPageRef: Re
                 // Get export value from AP (Appearance) dictionary or AS (Appearance State)
                 const as = obj.get("AS");
                 if (as && as instanceof Name && as.name !== "Off") {
-                    extraAttrs += ` value="${escapeHtml(as.name)}"`;
+                    properties.value = as.name;
                 } else {
                     // Try to get from AP/N keys
                     const ap = obj.get("AP");
@@ -1644,7 +2065,7 @@ async function processOBJR(context: PDFContext, objr: Dict, inheritedPageRef: Re
                             const keys = n.getKeys();
                             for (const key of keys) {
                                 if (key !== "Off") {
-                                    extraAttrs += ` value="${escapeHtml(key)}"`;
+                                    properties.value = key;
                                     break;
                                 }
                             }
@@ -1655,7 +2076,7 @@ async function processOBJR(context: PDFContext, objr: Dict, inheritedPageRef: Re
                 const v = await getInheritableFieldValue(context, obj, "V");
                 const as2 = obj.get("AS");
                 if (v && as2 && v instanceof Name && as2 instanceof Name && v.name === as2.name && v.name !== "Off") {
-                    extraAttrs += ` checked`;
+                    properties.checked = true;
                 }
             } else if (flags & 65536) { // PushButton
                 // Check for Submit/Reset actions
@@ -1682,9 +2103,9 @@ async function processOBJR(context: PDFContext, objr: Dict, inheritedPageRef: Re
 
                 if (label) {
                     if (type === "submit" || type === "reset") {
-                        extraAttrs += ` value="${escapeHtml(label)}"`;
+                        properties.value = label;
                     } else {
-                        content = escapeHtml(label);
+                        content = [text(label)];
                         contentText = label;
                         tag = "button";
                     }
@@ -1694,7 +2115,7 @@ async function processOBJR(context: PDFContext, objr: Dict, inheritedPageRef: Re
                 // Check state
                 const v = await getInheritableFieldValue(context, obj, "V");
                 if (v instanceof Name && v.name !== "Off") {
-                    extraAttrs += ` checked`;
+                    properties.checked = true;
                 }
             }
 
@@ -1711,7 +2132,7 @@ async function processOBJR(context: PDFContext, objr: Dict, inheritedPageRef: Re
                 type = ""; // textarea doesn't have type attribute
                 const v = await getInheritableFieldValue(context, obj, "V");
                 if (typeof v === 'string') {
-                    content = escapeHtml(v);
+                    content = [text(v)];
                     contentText = v;
                 }
             } else {
@@ -1720,20 +2141,22 @@ async function processOBJR(context: PDFContext, objr: Dict, inheritedPageRef: Re
 
                 const v = await getInheritableFieldValue(context, obj, "V");
                 if (typeof v === 'string') {
-                    extraAttrs += ` value="${escapeHtml(v)}"`;
+                    properties.value = v;
                 }
             }
         } else if (ft === "Sig") {
             // Signature field - render as readonly text input with signature indicator
             type = "text";
-            extraAttrs += ` readonly data-pdf-field-type="signature"`;
+            properties.readonly = true;
+            properties["data-pdf-field-type"] = "signature";
 
             const v = await getInheritableFieldValue(context, obj, "V");
             if (v) {
                 // Signature is present
-                extraAttrs += ` value="[Digitally Signed]" data-pdf-signed="true"`;
+                properties.value = "[Digitally Signed]";
+                properties["data-pdf-signed"] = "true";
             } else {
-                extraAttrs += ` placeholder="[Unsigned]"`;
+                properties.placeholder = "[Unsigned]";
             }
         } else if (ft === "Ch") {
              // Choice
@@ -1743,7 +2166,7 @@ async function processOBJR(context: PDFContext, objr: Dict, inheritedPageRef: Re
              // Bit 18: Combo (Edit allowed?)
              // Bit 19: Edit (If Combo set)
              // Bit 22: MultiSelect
-             if (flags & 2097152) extraAttrs += ` multiple`;
+             if (flags & 2097152) properties.multiple = true;
 
              const opts = await getInheritableFieldValue(context, obj, "Opt");
              const v = await getInheritableFieldValue(context, obj, "V"); // Selected value(s)
@@ -1774,12 +2197,12 @@ async function processOBJR(context: PDFContext, objr: Dict, inheritedPageRef: Re
                          label = stringToPDFString(opt);
                      }
 
-                     let selected = "";
+                     const optionProperties: HtmlProperties = { value };
                      if (selectedValues.includes(value)) {
-                         selected = " selected";
+                         optionProperties.selected = true;
                      }
 
-                     content += `<option value="${escapeHtml(value)}"${selected}>${escapeHtml(label)}</option>`;
+                     content.push(h("option", optionProperties, label ? [text(label)] : []));
                      if (label) {
                          contentText += (contentText ? " " : "") + label;
                      }
@@ -1788,33 +2211,41 @@ async function processOBJR(context: PDFContext, objr: Dict, inheritedPageRef: Re
         }
 
         if (tag === "input") {
-            if (type) {
-                return { html: `<${tag} type="${type}"${extraAttrs}/>${script}`, text: "", rootTag: "input" };
-            } else {
-                return { html: `<${tag}${extraAttrs}/>${script}`, text: "", rootTag: "input" };
-            }
+            const inputProperties = type ? { type, ...properties } : properties;
+            return { nodes: [h(tag, inputProperties), ...script], text: "", rootTag: "input" };
         } else if (tag === "button") {
-            return { html: `<${tag}${extraAttrs}>${content}</${tag}>${script}`, text: contentText, rootTag: "button" };
+            return { nodes: [h(tag, properties, content), ...script], text: contentText, rootTag: "button" };
         } else {
-            return { html: `<${tag}${extraAttrs}>${content}</${tag}>${script}`, text: contentText, rootTag: tag };
+            return { nodes: [h(tag, properties, content), ...script], text: contentText, rootTag: tag };
         }
     }
 
     if (subtype === "Image") {
-         const dataUri = await convertImageXObject(context, obj, inheritedPageRef);
          const pdfWidth = obj.get("Width");
          const pdfHeight = obj.get("Height");
          const { width, height } = calculateImageDimensions(pdfWidth, pdfHeight);
          const alt = "PDF Image";
+         if (!isImageWithinLimit(context, pdfWidth, pdfHeight)) {
+             const marker = takeTruncationMarker(context, "maxImagePixels");
+             return { nodes: [h("img", { src: "placeholder.png", width, height, alt }), ...marker], text: "", rootTag: "img" };
+         }
+         let dataUri = findAsset(context, objRef) ?? "";
+         if (!dataUri) {
+             const converted = await convertImageXObject(context, obj, inheritedPageRef, {
+                 elementId: traversalCtx.currentElementId,
+                 objectRef: formatObjectRef(objRef)
+             });
+             dataUri = await getImageSource(context, converted, objRef);
+         }
 
          if (dataUri) {
-             return { html: `<img src="${dataUri}" width="${width}" height="${height}" alt="${alt}"/>`, text: "", rootTag: "img" };
+             return { nodes: [h("img", { src: dataUri, width, height, alt })], text: "", rootTag: "img" };
          } else {
-             return { html: `<img src="placeholder.png" width="${width}" height="${height}" alt="${alt} (Conversion Failed)"/>`, text: "", rootTag: "img" };
+             return { nodes: [h("img", { src: "placeholder.png", width, height, alt: `${alt} (Conversion Failed)` })], text: "", rootTag: "img" };
          }
     }
 
-    return { html: "", text: "", rootTag: null };
+    return { nodes: [], text: "", rootTag: null };
 }
 
 // §6.7: Link processing with structured destination support
@@ -1828,11 +2259,15 @@ async function processLink(
     traversalCtx: TraversalContext
 ): Promise<RenderedContent> {
     let href = "";
+    // Set for targets outside the document, which go through the URL policy
+    let usage: UrlUsage | undefined;
 
     const resolveActionHref = (action: Dict): string => {
         const actionType = action.get("S")?.name;
+        usage = undefined;
         if (actionType === "URI") {
             const uri = action.get("URI");
+            usage = "link";
             if (uri) return stringToPDFString(uri);
         } else if (actionType === "GoTo") {
             const dest = action.get("D");
@@ -1841,11 +2276,13 @@ async function processLink(
             const f = action.get("F");
             const dest = action.get("D");
             const file = typeof f === "string" ? f : f?.get?.("F");
+            usage = "remote-document";
             if (file && dest) return `${stringToPDFString(file)}${convertDestToFragment(dest, context, traversalCtx.idState)}`;
             if (file) return stringToPDFString(file);
         } else if (actionType === "Launch") {
             const f = action.get("F");
             const file = typeof f === "string" ? f : f?.get?.("F");
+            usage = "launch";
             if (file) return stringToPDFString(file);
         }
         return "";
@@ -1886,6 +2323,7 @@ async function processLink(
                         if (!href) {
                             const dest = obj.get("Dest");
                             if (dest) {
+                                usage = undefined;
                                 href = convertDestToFragment(dest, context, traversalCtx.idState);
                             }
                         }
@@ -1899,36 +2337,47 @@ async function processLink(
         await findHref(child);
     }
 
-    let attrs = getHTMLAttributes(attributes);
+    const properties: HtmlProperties = getHTMLProperties(attributes);
     const sType = (child.get("S") as Name | undefined)?.name;
     const roleMap = context.structTreeRoot?.roleMap;
     const namespaceURI = getNamespaceURI(context, child);
     const mappedRole = sType ? resolveRole(sType, roleMap, namespaceURI) : "";
 
     if (mappedRole) {
-        attrs += ` data-pdf-se-type="${escapeHtml(mappedRole)}"`;
+        properties["data-pdf-se-type"] = mappedRole;
     }
     if (sType && sType !== mappedRole) {
-        attrs += ` data-pdf-se-type-original="${escapeHtml(sType)}"`;
+        properties["data-pdf-se-type-original"] = sType;
     }
-    if (href) attrs += ` href="${escapeHtml(href)}"`;
 
     const id = child.get("ID") as string | undefined;
     const lang = child.get("Lang") as string | undefined;
     const title = child.get("T") as string | undefined;
+    const linkId = id ? stringToPDFString(id) : ensureGeneratedId(childOrRef, child, traversalCtx.idState);
 
-    if (id) {
-        attrs += ` id="${escapeHtml(stringToPDFString(id))}"`;
-    } else {
-        const generatedId = ensureGeneratedId(childOrRef, child, traversalCtx.idState);
-        attrs += ` id="${escapeHtml(generatedId)}"`;
+    // §14.2: External targets go through the URL policy (safe mode drops javascript:,
+    // data: and other unsafe URL schemes, and Launch actions)
+    const allowedHref = href && usage ? applyUrlPolicy(context, href, usage, { elementId: linkId }) : href;
+    if (allowedHref) {
+        properties.href = allowedHref;
+    } else if (href) {
+        Object.assign(properties, blockedUrlProperties(context, href));
+    }
+
+    // traversalCtx.treeNode is this link's own node (see processStructElement)
+    properties.id = linkId;
+    traversalCtx.treeNode.id = linkId;
+    let direction = traversalCtx.direction;
+    if (lang) {
+        const linkLang = stringToPDFString(lang);
+        properties.lang = traversalCtx.treeNode.lang = linkLang;
+        direction = applyLanguageDirection(properties, linkLang, direction);
     }
-    if (lang) attrs += ` lang="${escapeHtml(stringToPDFString(lang))}"`;
-    if (title) attrs += ` title="${escapeHtml(stringToPDFString(title))}"`;
+    if (title) properties.title = stringToPDFString(title);
 
     const pronunciationHint = getPronunciationHint(attributes);
     if (pronunciationHint) {
-        attrs += ` data-pdf-pronunciation="${escapeHtml(pronunciationHint)}"`;
+        properties["data-pdf-pronunciation"] = pronunciationHint;
     }
 
     if (classes) {
@@ -1947,32 +2396,50 @@ async function processLink(
         } else {
              classStr = toClassName(classes);
         }
-        if (classStr) attrs += ` class="${escapeHtml(classStr)}"`;
+        if (classStr) properties.class = classStr;
     }
 
     const style = getCSSProperties(attributes);
-    if (style) attrs += ` style="${escapeHtml(style)}"`;
+    if (style) properties.style = style;
 
     const actualText = child.get("ActualText") as string | undefined;
-    let content = "";
+    let content: HtmlContent[];
     let contentText = "";
     if (actualText) {
         contentText = stringToPDFString(actualText);
-        content = escapeHtml(contentText);
+        content = [text(contentText)];
     } else {
         const children = child.get("K");
-        const rendered = await processChildren(context, children, inheritedPageRef, traversalCtx);
-        content = rendered.html;
+        const rendered = await processChildren(context, children, inheritedPageRef, { ...traversalCtx, direction });
+        content = rendered.nodes;
         contentText = rendered.text;
     }
 
     const expansionText = child.get("E") as string | undefined;
     if (expansionText) {
-        const eVal = escapeHtml(stringToPDFString(expansionText));
-        content = `<abbr title="${eVal}">${content}</abbr>`;
+        content = [h("abbr", { title: stringToPDFString(expansionText) }, content)];
     }
 
-    return { html: `<a${attrs}>${content}</a>`, text: contentText, rootTag: "a" };
+    return { nodes: [h("a", properties, content)], text: contentText, rootTag: "a" };
+}
+
+/**
+ * Elements in a language written in the other direction than the enclosing text get a
+ * dir attribute, unless their attributes already set one. Returns the direction of
+ * the element's content.
+ */
+function applyLanguageDirection(properties: HtmlProperties, lang: string, inherited: TextDirection | undefined): TextDirection | undefined {
+    if (properties.dir === "ltr" || properties.dir === "rtl") return properties.dir;
+    const direction = getLanguageDirection(lang);
+    if (!direction) return inherited;
+    if (direction !== (inherited ?? "ltr")) properties.dir = direction;
+    return direction;
+}
+
+// §14.2: Images over maxImagePixels are not decoded; a placeholder is emitted instead
+function isImageWithinLimit(context: PDFContext, width: unknown, height: unknown): boolean {
+    if (typeof width !== "number" || typeof height !== "number") return true;
+    return checkLimit(context, "maxImagePixels", width * height);
 }
 
 // §9.3: Calculate HTML image dimensions from PDF dimensions
@@ -1984,7 +2451,7 @@ function calculateImageDimensions(pdfWidth: number, pdfHeight: number): { width:
     return { width, height };
 }
 
-function imageDataToDataUri(imageData: any): { dataUri: string; width: number; height: number } | null {
+function imageDataToDataUri(imageData: any, context: PDFContext): { dataUri: string; width: number; height: number } | null {
     if (!imageData) return null;
 
     const width = imageData.width || imageData.bitmap?.width;
@@ -2028,7 +2495,8 @@ function imageDataToDataUri(imageData: any): { dataUri: string; width: number; h
         return null;
     }
 
-    return { dataUri: canvas.toDataURL("image/png"), width, height };
+    const mimeType = getImageMimeType(context.options, false);
+    return { dataUri: canvas.toDataURL(mimeType, context.options.jpegQuality), width, height };
 }
 
 // §6.7: Convert PDF destination to HTML fragment identifier
@@ -33,6 +33,8 @@ export interface XRef {
     fetchIfRefAsync<T = unknown>(ref: unknown): Promise<T>;
     fetch<T = unknown>(ref: Ref): T;
     root: Dict | undefined;
+    /** Trailer dictionary (Info, ID, Encrypt) */
+    trailer: Dict | undefined;
 }
 
 /** PDF Page interface - subset of methods used by this codebase */
@@ -42,6 +44,7 @@ export interface PDFPage {
     userUnit?: number;
     resources: Promise<Dict | null>;
     pageDict?: Dict;
+    ref?: Ref | null;
     extractTextContent(options: TextContentOptions): Promise<TextContentResult>;
     getOperatorList(options: OperatorListOptions): Promise<void>;
     getStructTree?(): Promise<unknown>;
@@ -71,6 +74,21 @@ export interface TextItem {
     id?: string;
     str?: string;
     hasEOL?: boolean;
+    transform?: number[];
+    width?: number;
+    height?: number;
+    fontName?: string;
+}
+
+/** Positioned text run used for layout analysis of untagged pages */
+export interface TextRun {
+    text: string;
+    /** Baseline origin in PDF user space */
+    x: number;
+    y: number;
+    width: number;
+    fontSize: number;
+    fontName?: string;
 }
 
 /** Operator list options */
@@ -90,6 +108,23 @@ export interface OperatorListOptions {
 /** PDF Catalog interface */
 export interface PDFCatalog {
     getPageIndex(ref: Ref): Promise<number>;
+    /** PermissionFlag values granted by the Encrypt dictionary, or null when unencrypted */
+    permissions: number[] | null;
+    /** Bookmarks from the Outlines dictionary, or null when there are none */
+    documentOutline: PDFOutlineItem[] | null;
+    /** Page labels (PageLabels number tree), one per page, or null */
+    pageLabels: string[] | null;
+    /** Explicit destination array for a named destination */
+    getDestination(id: string): unknown[] | null;
+}
+
+/** Outline item as read by pdf.js */
+export interface PDFOutlineItem {
+    title: string;
+    /** Named destination or explicit destination array */
+    dest: string | unknown[] | null;
+    url: string | null;
+    items: PDFOutlineItem[];
 }
 
 /** PDF Document interface (internal document, not PDFDocumentProxy) */
@@ -118,7 +153,7 @@ export interface StructTreeRootType {
 /** PDF Stream with dictionary */
 export interface PDFStream {
     dict: Dict;
-    getBytes(): Uint8Array;
+    getBytes(length?: number): Uint8Array;
 }
 
 /** Image XObject interface - loosely typed since structure varies */
@@ -0,0 +1,110 @@
+/**
+ * URL policy for external references.
+ *
+ * Every URL the PDF points outside the document with — URI, GoToR and Launch link
+ * targets and associated files referenced by URL — goes through one check. The
+ * caller's rewrite hook runs first, then safe mode and the scheme and host
+ * allowlists decide on the result. Blocked and rewritten URLs are reported as
+ * diagnostics. Links to destinations within the document are not checked.
+ */
+
+import type { PDFContext } from "./pdf_js_context.ts";
+import type { HtmlProperties } from "./html_tree.ts";
+import { reportDiagnostic } from "./diagnostics.ts";
+import type { DiagnosticLocation } from "./diagnostics.ts";
+import { getUrlScheme, isSafeUrl } from "./sanitizer.ts";
+
+/**
+ * Where a URL is used: a link target ("link" for URI actions, "remote-document" for
+ * GoToR, "launch" for Launch), or an associated file referenced by URL
+ */
+export type UrlUsage = "link" | "remote-document" | "launch" | "stylesheet" | "script" | "image" | "import";
+
+export interface UrlPolicy {
+    /** Allowed schemes of absolute URLs, e.g. ["https", "mailto"] (default: any) */
+    schemes?: string[];
+    /**
+     * Allowed hosts of URLs that have one; "*.example.com" matches subdomains
+     * (default: any). URLs without a host, such as mailto:, are only checked by scheme.
+     */
+    hosts?: string[];
+    /** Allow relative URLs (default: true) */
+    allowRelative?: boolean;
+    /** Return a replacement URL, null to block the URL, or undefined to keep it */
+    rewrite?: (url: string, usage: UrlUsage) => string | null | undefined;
+    /**
+     * What is emitted for a blocked URL: "remove" leaves out the href (the link text
+     * stays) or the associated file reference; "placeholder" keeps the element and moves
+     * the URL to a data-pdf-blocked-url attribute (default: "remove")
+     */
+    onBlocked?: "remove" | "placeholder";
+}
+
+// §14.2: Safe mode never references scripts, stylesheets, HTML imports or programs to launch
+const SAFE_MODE_BLOCKED_USAGES = new Set<UrlUsage>(["script", "stylesheet", "import", "launch"]);
+
+/** The URL to emit, or null when it's blocked */
+export function applyUrlPolicy(context: PDFContext, url: string, usage: UrlUsage, location?: DiagnosticLocation): string | null {
+    const policy = context.options.urlPolicy ?? {};
+    let result = url;
+    if (policy.rewrite) {
+        const rewritten = policy.rewrite(url, usage);
+        if (rewritten === null) {
+            reportBlocked(context, url, usage, "blocked by the rewrite hook", location);
+            return null;
+        }
+        if (rewritten !== undefined && rewritten !== url) {
+            reportDiagnostic(context, "info", "url-rewritten", `Rewrote ${usage} URL ${url} to ${rewritten}`, location);
+            result = rewritten;
+        }
+    }
+
+    const reason = getBlockReason(context, result, usage);
+    if (reason) {
+        reportBlocked(context, result, usage, reason, location);
+        return null;
+    }
+    return result;
+}
+
+/** Properties that stand in for a blocked URL, or null when blocked URLs are removed */
+export function blockedUrlProperties(context: PDFContext, url: string): HtmlProperties | null {
+    return context.options.urlPolicy?.onBlocked === "placeholder" ? { "data-pdf-blocked-url": url } : null;
+}
+
+function getBlockReason(context: PDFContext, url: string, usage: UrlUsage): string | null {
+    if (context.options.safeMode) {
+        if (SAFE_MODE_BLOCKED_USAGES.has(usage)) return "not referenced in safe mode";
+        if (!isSafeUrl(url)) return "unsafe scheme in safe mode";
+    }
+
+    const policy = context.options.urlPolicy;
+    if (!policy) return null;
+    const scheme = getUrlScheme(url);
+    if (scheme === undefined) {
+        return policy.allowRelative === false ? "relative URLs are not allowed" : null;
+    }
+    if (policy.schemes && !policy.schemes.some((allowed) => allowed.toLowerCase() === scheme)) {
+        return `scheme ${scheme} is not allowed`;
+    }
+    if (policy.hosts) {
+        let host: string;
+        try {
+            host = new URL(url.trim()).hostname.toLowerCase();
+        } catch {
+            return "URL can't be parsed";
+        }
+        if (host && !policy.hosts.some((pattern) => matchesHost(host, pattern.toLowerCase()))) {
+            return `host ${host} is not allowed`;
+        }
+    }
+    return null;
+}
+
+function matchesHost(host: string, pattern: string): boolean {
+    return pattern.startsWith("*.") ? host.endsWith(pattern.slice(1)) : host === pattern;
+}
+
+function reportBlocked(context: PDFContext, url: string, usage: UrlUsage, reason: string, location?: DiagnosticLocation): void {
+    reportDiagnostic(context, "warning", "url-blocked", `Blocked ${usage} URL ${url}: ${reason}`, location);
+}
@@ -0,0 +1,62 @@
+/**
+ * §12.2: Viewer preferences, and the text direction of the document and its elements.
+ *
+ * DisplayDocTitle decides whether the <title> is the document title or the file name.
+ * The direction of the document comes from the Direction preference, falling back to
+ * the catalog's Lang; elements whose Lang is written in the other direction get a dir
+ * attribute of their own.
+ */
+
+import type { PDFContext } from "./pdf_js_context.ts";
+import { Dict } from "#pdfjs/core/primitives.js";
+
+export type TextDirection = "ltr" | "rtl";
+
+export interface ViewerPreferences {
+    /** Show the document title rather than the file name (absent when not set) */
+    displayDocTitle?: boolean;
+    /** Predominant reading order of text (absent when not set) */
+    direction?: "L2R" | "R2L";
+}
+
+// Languages written right to left, unless a script subtag says otherwise
+const RTL_LANGUAGES = new Set([
+    "ar", "arc", "ckb", "dv", "fa", "he", "iw", "ji", "ks", "ku", "nqo", "prs", "ps", "sd", "syr", "ug", "ur", "yi"
+]);
+
+// ISO 15924 scripts written right to left
+const RTL_SCRIPTS = new Set([
+    "adlm", "arab", "aran", "armi", "avst", "hebr", "mand", "mend", "nbat", "nkoo", "orkh", "phnx",
+    "rohg", "samr", "sarb", "sogd", "sogo", "syrc", "thaa", "yezi"
+]);
+
+export function getViewerPreferences(context: PDFContext): ViewerPreferences {
+    const dict = context.rootDict.get("ViewerPreferences");
+    if (!(dict instanceof Dict)) return {};
+    const preferences: ViewerPreferences = {};
+    const displayDocTitle = dict.get("DisplayDocTitle");
+    if (typeof displayDocTitle === "boolean") preferences.displayDocTitle = displayDocTitle;
+    const direction = dict.get("Direction")?.name;
+    if (direction === "L2R" || direction === "R2L") preferences.direction = direction;
+    return preferences;
+}
+
+/** Direction of a BCP 47 language tag, or undefined when the tag is empty */
+export function getLanguageDirection(lang: string): TextDirection | undefined {
+    const [language, ...subtags] = lang.trim().toLowerCase().split(/[-_]/);
+    if (!language) return undefined;
+    // The script subtag is the first one with four letters
+    const script = subtags.find((subtag) => /^[a-z]{4}$/.test(subtag));
+    if (script) return RTL_SCRIPTS.has(script) ? "rtl" : "ltr";
+    return RTL_LANGUAGES.has(language) ? "rtl" : "ltr";
+}
+
+/** Direction preference, falling back to the direction of the catalog's Lang */
+export function getDocumentDirection(context: PDFContext): TextDirection {
+    const { direction } = getViewerPreferences(context);
+    if (direction) return direction === "R2L" ? "rtl" : "ltr";
+    // Lang can be Name or String
+    const lang = context.rootDict.get("Lang");
+    const catalogLang = typeof lang === "string" ? lang : lang?.name;
+    return (catalogLang && getLanguageDirection(catalogLang)) || "ltr";
+}
@@ -0,0 +1,116 @@
+/**
+ * Minimal ZIP writer for the EPUB (OCF) container.
+ *
+ * Entries are written in the given order, deflated with CompressionStream unless
+ * `store` is set (OCF requires the leading mimetype entry to be stored).
+ * No ZIP64 support: archives must stay below 4 GB.
+ */
+
+export interface ZipEntry {
+    path: string;
+    data: Uint8Array | string;
+    store?: boolean;
+}
+
+const encoder = new TextEncoder();
+
+let crcTable: Uint32Array | null = null;
+
+export async function createZip(entries: ZipEntry[], date: Date = new Date()): Promise<Uint8Array> {
+    const chunks: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+    const { time, day } = toDosDateTime(date);
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.path);
+        const data = typeof entry.data === "string" ? encoder.encode(entry.data) : entry.data;
+        const compressed = entry.store ? data : await deflate(data);
+        const method = entry.store ? 0 : 8;
+        const crc = crc32(data);
+
+        // Local file header; flag 0x0800 marks UTF-8 names
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true);
+        local.setUint16(6, 0x0800, true);
+        local.setUint16(8, method, true);
+        local.setUint16(10, time, true);
+        local.setUint16(12, day, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, compressed.byteLength, true);
+        local.setUint32(22, data.byteLength, true);
+        local.setUint16(26, name.byteLength, true);
+        chunks.push(new Uint8Array(local.buffer), name, compressed);
+
+        // Central directory record
+        const record = new DataView(new ArrayBuffer(46));
+        record.setUint32(0, 0x02014b50, true);
+        record.setUint16(4, 20, true);
+        record.setUint16(6, 20, true);
+        record.setUint16(8, 0x0800, true);
+        record.setUint16(10, method, true);
+        record.setUint16(12, time, true);
+        record.setUint16(14, day, true);
+        record.setUint32(16, crc, true);
+        record.setUint32(20, compressed.byteLength, true);
+        record.setUint32(24, data.byteLength, true);
+        record.setUint16(28, name.byteLength, true);
+        record.setUint32(42, offset, true);
+        central.push(new Uint8Array(record.buffer), name);
+
+        offset += 30 + name.byteLength + compressed.byteLength;
+    }
+
+    const centralSize = central.reduce((size, chunk) => size + chunk.byteLength, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return concat([...chunks, ...central, new Uint8Array(end.buffer)]);
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS time (2-second resolution) and date (years since 1980), in local time
+function toDosDateTime(date: Date): { time: number; day: number } {
+    const year = Math.max(date.getFullYear(), 1980);
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+        day: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    };
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.byteLength, 0));
+    let position = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, position);
+        position += chunk.byteLength;
+    }
+    return result;
+}
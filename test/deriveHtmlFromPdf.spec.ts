@@ -1,11 +1,54 @@
 // @vitest-environment node
-import { beforeAll, describe, expect, it } from "vitest";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import crypto from "node:crypto";
 import fs from "node:fs";
+import zlib from "node:zlib";
+import os from "node:os";
 import path from "node:path";
+import type { AddressInfo } from "node:net";
 import { fileURLToPath } from "node:url";
-import { deriveHtmlFromPdf } from "../src/index.js";
+import {
+  DOCUMENT_MODEL_VERSION,
+  deriveDocumentModelFromPdf,
+  deriveEpubFromPdf,
+  deriveHtmlFromPdf,
+  deriveHtmlStreamFromPdf,
+  deriveHtmlTreeFromPdf,
+  deriveHtmlWithAssets,
+  deriveHtmlWithDiagnostics,
+  deriveHtmlWithStructureTree,
+  deriveJatsFromPdf,
+  deriveMarkdownFromPdf,
+  deriveTextFromPdf,
+  PDFNotTaggedError,
+  PDFPasswordError,
+  PDFPermissionError,
+  ResourceLimitError,
+  StructureElementNotFoundError,
+  toHtml,
+  toMarkdown,
+} from "../src/index.js";
+import type {
+  ConversionOptions,
+  ConversionProgress,
+  Diagnostic,
+  DocumentNode,
+  HtmlContent,
+  HtmlElement,
+  SerializableStructTreeElement,
+  SerializableStructTreeNode,
+} from "../src/index.js";
 import { createPDFContext } from "../src/pdf_js_context.js";
+import { convertToHTML, convertToHTMLWithStructureTree } from "../src/converter.js";
+import { EXIT_CODES, runCli } from "../src/cli.js";
+import { convertDirectory } from "../src/batch.js";
+import { createConversionServer } from "../src/server.js";
+import { createConverterPool } from "../src/converter_pool.js";
+import { ContentExtractor } from "../src/content_extractor.js";
 import { generateCSS } from "../src/css_generator.js";
+import { h, text } from "../src/html_tree.js";
+import { isSafeUrl, sanitizeMarkup } from "../src/sanitizer.js";
+import { getLanguageDirection } from "../src/viewer_preferences.js";
 import { MetadataParser } from "../pdf.js/src/core/metadata_parser.js";
 import { stringToPDFString } from "../pdf.js/src/shared/util.js";
 
@@ -47,12 +90,180 @@ function escapeRegExp(value: string): string {
   return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
+// Writes a PDF with a classic xref table; object n is objects[n - 1]
+function buildPdf(objects: (string | Uint8Array)[], trailer = "/Root 1 0 R"): Uint8Array {
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === "string" ? Buffer.from(part, "latin1") : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  write("%PDF-1.7\n%\xe2\xe3\xcf\xd3\n");
+  const offsets = objects.map((body, index) => {
+    const offset = length;
+    write(`${index + 1} 0 obj\n`);
+    write(body);
+    write("\nendobj\n");
+    return offset;
+  });
+  const xref = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  for (const offset of offsets) write(`${String(offset).padStart(10, "0")} 00000 n \n`);
+  write(`trailer\n<< /Size ${objects.length + 1} ${trailer} >>\nstartxref\n${xref}\n%%EOF\n`);
+  return new Uint8Array(Buffer.concat(parts));
+}
+
+function pdfStream(content: string | Uint8Array, dict = ""): Uint8Array {
+  const data = typeof content === "string" ? Buffer.from(content, "latin1") : content;
+  return Buffer.concat([
+    Buffer.from(`<< ${dict} /Length ${data.length} >>\nstream\n`, "latin1"),
+    data,
+    Buffer.from("\nendstream", "latin1"),
+  ]);
+}
+
+interface TaggedPdfParts {
+  /** Added to the StructTreeRoot dictionary */
+  structTreeRoot?: string;
+  /** Added to the paragraph's StructElem dictionary */
+  element?: string;
+  /** Added to the page's Font resources */
+  fonts?: string;
+  /** Added to the Page dictionary */
+  page?: string;
+  /** Added to the page's Resources dictionary */
+  resources?: string;
+  /** Replaces the page content; MCID 0 belongs to the paragraph */
+  content?: string;
+  /** Objects 9 and up */
+  objects?: (string | Uint8Array)[];
+}
+
+// One page with a single tagged paragraph, "Hello tagged world"
+function buildTaggedPdf(parts: TaggedPdfParts = {}): Uint8Array {
+  return buildPdf(taggedPdfObjects(parts));
+}
+
+function taggedPdfObjects(parts: TaggedPdfParts): (string | Uint8Array)[] {
+  return [
+    "<< /Type /Catalog /Pages 2 0 R /MarkInfo << /Marked true >> /StructTreeRoot 5 0 R /Lang (en-US) >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 300 200] /Contents 4 0 R /StructParents 0 ${parts.page ?? ""} /Resources << /Font << /F1 7 0 R ${parts.fonts ?? ""} >> ${parts.resources ?? ""} >> >>`,
+    pdfStream(parts.content ?? "/P << /MCID 0 >> BDC BT /F1 12 Tf 20 100 Td (Hello tagged world) Tj ET EMC"),
+    `<< /Type /StructTreeRoot /K 6 0 R /ParentTree 8 0 R ${parts.structTreeRoot ?? ""} >>`,
+    `<< /Type /StructElem /S /P /P 5 0 R /Pg 3 0 R /K 0 ${parts.element ?? ""} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Nums [0 [6 0 R]] >>",
+    ...(parts.objects ?? []),
+  ];
+}
+
+// One untagged page with a line of Helvetica text for each [font size, baseline, text]
+function buildUntaggedPdf(lines: [number, number, string][]): Uint8Array {
+  const content = lines.map(([size, y, line]) => `BT /F1 ${size} Tf 72 ${y} Td (${line}) Tj ET`).join("\n");
+  return buildPdf([
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+    pdfStream(content),
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+  ]);
+}
+
+const PASSWORD_PADDING = Buffer.from("28bf4e5e4e758a4164004e56fffa01082e2e00b6d0683e802f0ca9fe6453697a", "hex");
+
+function md5(...parts: Uint8Array[]): Buffer {
+  return crypto.createHash("md5").update(Buffer.concat(parts)).digest();
+}
+
+function rc4(key: Uint8Array, data: Uint8Array): Buffer {
+  const state = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+  const output = Buffer.alloc(data.length);
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) & 0xff;
+    j = (j + state[i]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+    output[n] = data[n] ^ state[(state[i] + state[j]) & 0xff];
+  }
+  return output;
+}
+
+interface Encryption {
+  userPassword: string;
+  ownerPassword: string;
+  /** P entry: permission bits as a signed 32-bit integer */
+  permissions: number;
+}
+
+// The tagged paragraph PDF, encrypted by the standard security handler, revision 3 (128-bit RC4)
+function buildEncryptedPdf({ userPassword, ownerPassword, permissions }: Encryption, parts: TaggedPdfParts = {}): Uint8Array {
+  const pad = (password: string) => Buffer.concat([Buffer.from(password, "latin1"), PASSWORD_PADDING]).subarray(0, 32);
+  // RC4 with the key, then 19 more times with each byte of the key XORed with the round
+  const encryptRounds = (key: Buffer, data: Buffer) => {
+    let output = rc4(key, data);
+    for (let round = 1; round <= 19; round++) output = rc4(key.map((byte) => byte ^ round), output);
+    return output;
+  };
+  const id = md5(Buffer.from("encrypted fixture"));
+
+  let ownerKey = md5(pad(ownerPassword));
+  for (let i = 0; i < 50; i++) ownerKey = md5(ownerKey);
+  const owner = encryptRounds(ownerKey, pad(userPassword));
+
+  const flags = Buffer.alloc(4);
+  flags.writeInt32LE(permissions);
+  let key = md5(pad(userPassword), owner, flags, id);
+  for (let i = 0; i < 50; i++) key = md5(key);
+  const user = Buffer.concat([encryptRounds(key, md5(PASSWORD_PADDING, id)), Buffer.alloc(16)]);
+
+  // Strings and stream data are encrypted with a key derived from the object number
+  const objects = taggedPdfObjects(parts).map((body, index) => {
+    const objectKey = md5(key, Buffer.from([index + 1, 0, 0, 0, 0]));
+    const source = Buffer.from(body).toString("latin1");
+    const stream = /^([\s\S]*?stream\n)([\s\S]*)(\nendstream)$/.exec(source);
+    if (stream) {
+      return Buffer.concat([
+        Buffer.from(stream[1], "latin1"),
+        rc4(objectKey, Buffer.from(stream[2], "latin1")),
+        Buffer.from(stream[3], "latin1"),
+      ]);
+    }
+    return source.replace(/\(([^()\\]*)\)/g, (_, value: string) => `<${rc4(objectKey, Buffer.from(value, "latin1")).toString("hex")}>`);
+  });
+  const encryptRef = objects.length + 1;
+  objects.push(`<< /Filter /Standard /V 2 /R 3 /Length 128 /O <${owner.toString("hex")}> /U <${user.toString("hex")}> /P ${permissions} >>`);
+  const fileId = id.toString("hex");
+  return buildPdf(objects, `/Root 1 0 R /Encrypt ${encryptRef} 0 R /ID [<${fileId}> <${fileId}>]`);
+}
+
 function extractTagContent(source: string, tagName: string): string | null {
   const pattern = new RegExp(`<${tagName}[^>]*>([\\s\\S]*?)</${tagName}>`, "i");
   const match = source.match(pattern);
   return match ? match[1] : null;
 }
 
+// Reads an entry of a ZIP archive by walking its local file headers
+function readZipEntry(archive: Uint8Array, name: string): string | null {
+  const buffer = Buffer.from(archive);
+  for (let offset = 0; buffer.readUInt32LE(offset) === 0x04034b50;) {
+    const method = buffer.readUInt16LE(offset + 8);
+    const size = buffer.readUInt32LE(offset + 18);
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const start = offset + 30 + nameLength + buffer.readUInt16LE(offset + 28);
+    if (buffer.toString("utf8", offset + 30, offset + 30 + nameLength) === name) {
+      const data = buffer.subarray(start, start + size);
+      return (method === 8 ? zlib.inflateRawSync(data) : data).toString("utf8");
+    }
+    offset = start + size;
+  }
+  return null;
+}
+
 function getMetadataTitle(ctx: Awaited<ReturnType<typeof createPDFContext>>): string {
   let title = "";
   const metadataStream = ctx.rootDict.get("Metadata");
@@ -415,7 +626,7 @@ function isInlineContext(role?: string): boolean {
 describe("deriveHtmlFromPdf (SPECIFICATION.md compliance)", () => {
   beforeAll(async () => {
     const data = new Uint8Array(fs.readFileSync(pdfPath));
-    context = await createPDFContext(data, "tagged-output.pdf");
+    context = await createPDFContext(data, { filename: "tagged-output.pdf" });
     html = await deriveHtmlFromPdf(data);
     structElements = collectStructElements(context);
     structElementsByRole = groupByRole(structElements);
@@ -951,3 +1162,866 @@ describe("deriveHtmlFromPdf (SPECIFICATION.md compliance)", () => {
     }
   });
 });
+
+describe("deriveHtmlFromPdf conversion options", () => {
+  it("omits scripts and the structure map when switched off", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const output = await deriveHtmlFromPdf(data, {
+      filename: "options.pdf",
+      includeScripts: false,
+      includeStructureMap: false,
+    });
+    expect(output).not.toMatch(/window\.app\s*=\s*\{/);
+    expect(output).not.toContain('id="pdf-structure-map"');
+    expect(output).toContain("<body>");
+  }, TEST_TIMEOUT_MS);
+  it("applies per-call options to that call only when a context is reused", async () => {
+    const reused = await createPDFContext(buildTaggedPdf(), { filename: "reused.pdf" });
+    const first = await convertToHTML(reused, { filename: "first.pdf", includeScripts: false });
+    expect(extractTagContent(first, "title")).toBe("first.pdf");
+    expect(first).not.toContain("PDF ECMAScript Runtime");
+
+    const second = await convertToHTML(reused);
+    expect(extractTagContent(second, "title")).toBe("reused.pdf");
+    expect(second).toContain("PDF ECMAScript Runtime");
+    expect(reused.baseOptions.filename).toBe("reused.pdf");
+  }, TEST_TIMEOUT_MS);
+
+  it("includes the open and close actions of every page", async () => {
+    const data = buildTaggedPdf({
+      page: "/AA << /O << /S /JavaScript /JS (pageOpened\\(\\);) >> /C << /S /JavaScript /JS (pageClosed\\(\\);) >> >>",
+    });
+    const { html: output, diagnostics } = await deriveHtmlWithDiagnostics(data);
+    expect(output).toContain("// Page 1 Open Action\npageOpened();");
+    expect(output).toContain("// Page 1 Close Action\npageClosed();");
+    expect(diagnostics.map((diagnostic) => diagnostic.code)).not.toContain("page-scripts-failed");
+  }, TEST_TIMEOUT_MS);
+
+  it("leaves out JavaScript associated files with the other scripts", async () => {
+    const data = buildTaggedPdf({
+      element: "/AF [9 0 R 11 0 R]",
+      objects: [
+        "<< /Type /Filespec /F (widget.js) /AFRelationship /Supplement /EF << /F 10 0 R >> >>",
+        pdfStream("embeddedScript();", "/Type /EmbeddedFile /Subtype /text#2Fjavascript"),
+        "<< /Type /Filespec /FS /URL /F (https://example.com/remote.js) /AFRelationship /Supplement >>",
+      ],
+    });
+    const withScripts = await deriveHtmlFromPdf(data);
+    expect(withScripts).toContain("embeddedScript();");
+    expect(withScripts).toContain('src="https://example.com/remote.js"');
+
+    const withoutScripts = await deriveHtmlFromPdf(data, { includeScripts: false });
+    expect(withoutScripts).toContain("Hello tagged world");
+    expect(withoutScripts).not.toContain("embeddedScript();");
+    expect(withoutScripts).not.toContain("remote.js");
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("encrypted PDFs", () => {
+  // P without bit 5 (copy) and bit 10 (extraction for accessibility)
+  const NO_EXTRACTION = -4 & ~(1 << 4) & ~(1 << 9);
+  const encryption = { userPassword: "secret", ownerPassword: "owner", permissions: -4 };
+
+  it("rejects a missing or incorrect password", async () => {
+    const data = buildEncryptedPdf(encryption);
+    const missing = deriveHtmlFromPdf(data);
+    await expect(missing).rejects.toBeInstanceOf(PDFPasswordError);
+    await expect(missing).rejects.toMatchObject({ reason: "required" });
+    const incorrect = deriveHtmlFromPdf(data, { password: "wrong" });
+    await expect(incorrect).rejects.toBeInstanceOf(PDFPasswordError);
+    await expect(incorrect).rejects.toMatchObject({ reason: "incorrect" });
+  }, TEST_TIMEOUT_MS);
+
+  it("opens the document with the user or owner password", async () => {
+    const data = buildEncryptedPdf(encryption);
+    for (const password of ["secret", "owner"]) {
+      const output = await deriveHtmlFromPdf(data, { password });
+      expect(output).toContain("Hello tagged world");
+      expect(output).toMatch(/<html[^>]* lang="en-US"/);
+    }
+  }, TEST_TIMEOUT_MS);
+
+  it("applies the permissions policy when extraction isn't permitted", async () => {
+    const data = buildEncryptedPdf({ ...encryption, userPassword: "", permissions: NO_EXTRACTION });
+    await expect(createPDFContext(data)).rejects.toBeInstanceOf(PDFPermissionError);
+
+    const warned = await createPDFContext(data, { permissions: "warn" });
+    expect(warned.diagnostics).toContainEqual(expect.objectContaining({ severity: "warning", code: "permissions-restricted" }));
+    const ignored = await createPDFContext(data, { permissions: "ignore" });
+    expect(ignored.diagnostics.map((diagnostic) => diagnostic.code)).not.toContain("permissions-restricted");
+    expect(await deriveHtmlFromPdf(data, { permissions: "ignore" })).toContain("Hello tagged world");
+
+    // Extraction for accessibility alone is enough
+    const accessible = buildEncryptedPdf({ ...encryption, userPassword: "", permissions: NO_EXTRACTION | (1 << 9) });
+    const { diagnostics } = await createPDFContext(accessible);
+    expect(diagnostics.map((diagnostic) => diagnostic.code)).not.toContain("permissions-restricted");
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("inferStructure", () => {
+  const data = buildUntaggedPdf([
+    [24, 740, "Annual Report"],
+    [16, 700, "Introduction"],
+    [12, 670, "The report covers the results of the year and the plans for the"],
+    [12, 656, "next one, in more detail than the report of the previous year."],
+    [12, 620, "1. First step"],
+    [12, 606, "2. Second step"],
+    [12, 570, "Closing remarks follow the list of steps and end the report."],
+  ]);
+
+  it("rejects untagged PDFs unless asked to infer structure", async () => {
+    await expect(deriveHtmlFromPdf(data)).rejects.toBeInstanceOf(PDFNotTaggedError);
+  }, TEST_TIMEOUT_MS);
+
+  it("infers headings by font size, paragraphs and lists", async () => {
+    const output = await deriveHtmlFromPdf(data, { inferStructure: true });
+    expect(extractTagContent(output, "h1")).toContain("Annual Report");
+    expect(extractTagContent(output, "h2")).toContain("Introduction");
+
+    const stripTags = (html: string) => html.replace(/<[^>]+>/g, "").trim();
+    const paragraphs = [...output.matchAll(/<p\b[^>]*>([\s\S]*?)<\/p>/g)].map((match) => stripTags(match[1]));
+    expect(paragraphs).toEqual([
+      "The report covers the results of the year and the plans for the next one, in more detail than the report of the previous year.",
+      "Closing remarks follow the list of steps and end the report.",
+    ]);
+
+    const list = extractTagContent(output, "ol");
+    expect(list).not.toBeNull();
+    const items = [...list!.matchAll(/<li\b[^>]*>([\s\S]*?)<\/li>/g)].map((match) => stripTags(match[1]));
+    expect(items).toEqual([expect.stringMatching(/^1\.\s*First step$/), expect.stringMatching(/^2\.\s*Second step$/)]);
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("safeMode", () => {
+  it("leaves scripts out of the output", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const output = await deriveHtmlFromPdf(data, { safeMode: true, includeScripts: true });
+    expect(output).toContain("<body>");
+    expect(output).not.toMatch(/window\.app\s*=\s*\{/);
+    expect(output).not.toMatch(/<script(?![^>]*type="application\/json")/);
+    expect(output).not.toMatch(/\son[a-z]+=/i);
+    expect(output).not.toMatch(/href="\s*javascript:/i);
+  }, TEST_TIMEOUT_MS);
+
+  it("keeps ClassMap CSS inside its style element", async () => {
+    // Class name: x</style><script>alert(1)</script>
+    const className = "x#3C#2Fstyle#3E#3Cscript#3Ealert#281#29#3C#2Fscript#3E";
+    const data = buildTaggedPdf({
+      structTreeRoot: `/ClassMap << /${className} << /O /CSS-2.00 /color (red</style><script>alert(2)</script>) >> >>`,
+      element: `/C /${className}`,
+    });
+    const output = await deriveHtmlFromPdf(data, { safeMode: true });
+    expect(output).toContain("Hello tagged world");
+    expect(output).not.toMatch(/<script>alert/);
+    expect(output.match(/<\/style>/g)?.length).toBe(output.match(/<style\b/g)?.length);
+    // The escaped selector still matches the class attribute
+    expect(output).toContain(".x\\3c \\2f style\\3e \\3c script\\3e alert\\28 1\\29 \\3c \\2f script\\3e  {");
+  }, TEST_TIMEOUT_MS);
+
+  it("filters embedded markup against the allowlist", () => {
+    const markup = '<p onclick="steal()">Hi<script>alert(1)</script> <a href=" java\tscript:alert(1)">x</a>'
+      + '<a href="https://example.com/">ok</a><iframe src="https://example.com/">frame</iframe><blink>kept</blink></p>'
+      + '<m:math xmlns:m="http://www.w3.org/1998/Math/MathML"><m:mi>x</m:mi></m:math>';
+    expect(toHtml(sanitizeMarkup(markup))).toBe(
+      '<p>Hi <a>x</a><a href="https://example.com/">ok</a>kept</p>'
+      + '<math xmlns="http://www.w3.org/1998/Math/MathML"><mi>x</mi></math>'
+    );
+    expect(isSafeUrl("#section-2")).toBe(true);
+    expect(isSafeUrl("mailto:a@example.com")).toBe(true);
+    expect(isSafeUrl("\u0001JavaScript:alert(1)")).toBe(false);
+    expect(isSafeUrl("data:text/html,<script>alert(1)</script>")).toBe(false);
+    expect(isSafeUrl("data:image/png;base64,AAAA", true)).toBe(true);
+  });
+
+  it("leaves out CSS that loads resources, in style elements as in style attributes", async () => {
+    const markup = '<style>@import "https://example.com/track.css";</style><style>p { color: red; }</style>'
+      + '<p style="background: url(https://example.com/pixel.png)">x</p>'
+      + '<style>p { background: URL( "https://example.com/pixel.png" ) }</style>';
+    expect(toHtml(sanitizeMarkup(markup))).toBe("<style>p { color: red; }</style><p>x</p>");
+
+    const data = buildTaggedPdf({
+      structTreeRoot: "/ClassMap << /remote << /O /Layout /BorderStyle (url\\(https://example.com/pixel.png\\)) >> >>",
+      element: "/C /remote",
+    });
+    expect(await deriveHtmlFromPdf(data)).toContain("example.com/pixel.png");
+    expect(await deriveHtmlFromPdf(data, { safeMode: true })).not.toContain("example.com/pixel.png");
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("contentSecurityPolicy", () => {
+  it("adds the nonce to every script and style element and emits the policy", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const nonce = "cGRmLXRlc3Qtbm9uY2U=";
+    const output = await deriveHtmlFromPdf(data, { nonce, contentSecurityPolicy: true });
+    const policy = output.match(/<meta http-equiv="Content-Security-Policy" content="([^"]*)">/);
+    expect(policy?.[1]).toContain(`script-src 'nonce-${nonce}'`);
+    expect(output.indexOf("Content-Security-Policy")).toBeLessThan(output.search(/<(script|style)\b/));
+    for (const tag of output.match(/<(script|style)\b[^>]*>/g) ?? []) {
+      expect(tag).toContain(`nonce="${nonce}"`);
+    }
+    // The strict runtime is the default under a policy
+    expect(output).not.toMatch(/\beval\(/);
+    expect(output).not.toContain("data-calculate=");
+  }, TEST_TIMEOUT_MS);
+
+  it("rejects nonces that would change the policy", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    await expect(deriveHtmlFromPdf(data, { nonce: "x'; script-src *" })).rejects.toThrow(/nonce/);
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("head metadata", () => {
+  it("maps XMP and Info dictionary metadata to meta elements and Dublin Core", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const head = extractTagContent(await deriveHtmlFromPdf(data), "head") ?? "";
+    const title = extractTagContent(head, "title");
+    expect(head).toContain('<meta name="author" content="Tagging Exercise Generator">');
+    expect(head).toContain('<meta name="description" content="Tagged PDF structure coverage for derivation testing">');
+    expect(head).toMatch(/<meta name="keywords" content="[^"]*structure tree[^"]*">/);
+    expect(head).toContain('<meta name="pdf-ua-part" content="2">');
+    expect(head).toContain('<link rel="schema.DC" href="http://purl.org/dc/elements/1.1/">');
+    expect(head).toContain(`<meta name="DC.title" content="${title}">`);
+    expect(head).toMatch(/<meta name="DCTERMS\.created" content="\d{4}-\d{2}-\d{2}/);
+    expect(head).not.toContain("application/ld+json");
+  }, TEST_TIMEOUT_MS);
+
+  it("leaves out Dublin Core when the document has no metadata", async () => {
+    const head = extractTagContent(await deriveHtmlFromPdf(buildTaggedPdf()), "head") ?? "";
+    expect(head).toContain("<title>");
+    expect(head).not.toContain("schema.DC");
+    expect(head).not.toContain('name="DC.');
+  }, TEST_TIMEOUT_MS);
+
+  it("describes the document as schema.org JSON-LD when asked to", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const output = await deriveHtmlFromPdf(data, { jsonLd: true });
+    const json = output.match(/<script type="application\/ld\+json">([\s\S]*?)<\/script>/)?.[1];
+    const description = JSON.parse(json ?? "{}");
+    expect(description["@type"]).toBe("DigitalDocument");
+    expect(description.name).toBe("PDF-to-HTML Derivation Algorithm Exercise");
+    expect(description.author).toEqual([{ "@type": "Person", name: "Tagging Exercise Generator" }]);
+    expect(description.inLanguage).toBe("en-US");
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("text direction", () => {
+  it("marks only elements written in the other direction than the document", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const output = await deriveHtmlFromPdf(data);
+    // An en-US document without a Direction preference
+    expect(output).toMatch(/<html lang="en-US">/);
+    expect(output).not.toMatch(/\sdir="rtl"/);
+    expect(output).not.toMatch(/<[^>]+lang="es[^"]*"[^>]*\sdir=/);
+  }, TEST_TIMEOUT_MS);
+
+  it("infers the direction from the language tag", () => {
+    expect(getLanguageDirection("ar-EG")).toBe("rtl");
+    expect(getLanguageDirection("he")).toBe("rtl");
+    expect(getLanguageDirection("az-Arab")).toBe("rtl");
+    expect(getLanguageDirection("ku-Latn")).toBe("ltr");
+    expect(getLanguageDirection("en-US")).toBe("ltr");
+    expect(getLanguageDirection("")).toBeUndefined();
+  });
+});
+
+describe("urlPolicy", () => {
+  it("rewrites external link targets and reports it", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const usages: string[] = [];
+    const { html: output, diagnostics } = await deriveHtmlWithDiagnostics(data, {
+      urlPolicy: {
+        rewrite: (url, usage) => {
+          usages.push(usage);
+          return url.startsWith("https://example.com") ? `https://proxy.test/?u=${encodeURIComponent(url)}` : undefined;
+        }
+      }
+    });
+    expect(usages).toContain("link");
+    expect(output).toContain('href="https://proxy.test/?u=https%3A%2F%2Fexample.com');
+    expect(output).not.toMatch(/href="https:\/\/example\.com/);
+    expect(diagnostics.some((d) => d.code === "url-rewritten")).toBe(true);
+  }, TEST_TIMEOUT_MS);
+
+  it("blocks hosts outside the allowlist, leaving a placeholder", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const { html: output, diagnostics } = await deriveHtmlWithDiagnostics(data, {
+      urlPolicy: { schemes: ["https"], hosts: ["example.org"], onBlocked: "placeholder" }
+    });
+    expect(output).not.toMatch(/href="https:\/\/example\.com/);
+    expect(output).toMatch(/<a [^>]*data-pdf-blocked-url="https:\/\/example\.com/);
+    const blocked = diagnostics.filter((d) => d.code === "url-blocked");
+    expect(blocked.length).toBeGreaterThan(0);
+    expect(blocked[0].severity).toBe("warning");
+    expect(output).toContain(`id="${blocked[0].elementId}"`);
+    // Links within the document are not subject to the policy
+    expect(output).toMatch(/href="#[^"]+"/);
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("deriveHtmlWithStructureTree", () => {
+  it("returns the full structure tree aligned with the generated HTML ids", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const { html: output, structureTree } = await deriveHtmlWithStructureTree(data);
+    expect(structureTree.role).toBe("Root");
+    expect(structureTree.children.length).toBeGreaterThan(0);
+
+    const elements: SerializableStructTreeElement[] = [];
+    const visit = (node: SerializableStructTreeNode) => {
+      if (!("role" in node)) return;
+      elements.push(node);
+      node.children.forEach(visit);
+    };
+    structureTree.children.forEach(visit);
+
+    const withIds = elements.filter((el) => el.id);
+    expect(withIds.length).toBeGreaterThan(0);
+    for (const el of withIds) {
+      expect(output).toContain(`id="${escapeHtml(el.id!)}"`);
+    }
+
+    const withContent = elements.filter((el) => el.mcids && el.mcids.length > 0);
+    expect(withContent.length).toBeGreaterThan(0);
+    for (const el of withContent) {
+      expect(typeof el.pageIndex).toBe("number");
+      for (const mcid of el.mcids!) {
+        expect(mcid).toMatch(/^p\d+R_mc\d+$/);
+      }
+    }
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("partial conversion", () => {
+  it("converts only the subtree rooted at the given structure element", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const { html: full, structureTree } = await deriveHtmlWithStructureTree(data);
+    const target = structureTree.children
+      .flatMap((node) => ("role" in node ? node.children : []))
+      .find((node): node is SerializableStructTreeElement => "role" in node && !!node.id);
+    expect(target).toBeDefined();
+
+    const partial = await deriveHtmlFromPdf(data, { subtreeId: target!.id });
+    expect(partial).toContain(`id="${escapeHtml(target!.id!)}"`);
+    expect(partial.length).toBeLessThan(full.length);
+  }, TEST_TIMEOUT_MS);
+
+  it("rejects a subtree id that isn't in the document", async () => {
+    const missing = deriveHtmlFromPdf(buildTaggedPdf(), { subtreeId: "no-such-element" });
+    await expect(missing).rejects.toBeInstanceOf(StructureElementNotFoundError);
+    await expect(missing).rejects.toMatchObject({ id: "no-such-element" });
+  }, TEST_TIMEOUT_MS);
+
+  it("keeps only content from the selected pages", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const full = await deriveHtmlFromPdf(data);
+    const firstPage = await deriveHtmlFromPdf(data, { pageRange: { first: 0, last: 0 } });
+    expect(firstPage).toContain("<body>");
+    expect(firstPage).toContain("</html>");
+    expect(firstPage.length).toBeLessThanOrEqual(full.length);
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("cancellation and progress", () => {
+  it("rejects with the abort reason when the signal is aborted", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const controller = new AbortController();
+    controller.abort();
+    await expect(deriveHtmlFromPdf(data, { signal: controller.signal })).rejects.toThrow(/abort/i);
+  }, TEST_TIMEOUT_MS);
+
+  it("reports pages extracted and structure elements emitted", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const updates: ConversionProgress[] = [];
+    await deriveHtmlFromPdf(data, { onProgress: (progress) => updates.push(progress) });
+
+    const last = updates[updates.length - 1];
+    expect(last.pagesExtracted).toBeGreaterThan(0);
+    expect(last.pagesExtracted).toBeLessThanOrEqual(last.totalPages);
+    expect(last.elementsEmitted).toBeGreaterThan(0);
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("resource limits", () => {
+  it("rejects with a ResourceLimitError when a limit is exceeded", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const conversion = deriveHtmlFromPdf(data, { limits: { maxStructureElements: 1 } });
+    await expect(conversion).rejects.toBeInstanceOf(ResourceLimitError);
+    await expect(conversion).rejects.toMatchObject({ limit: "maxStructureElements", max: 1 });
+  }, TEST_TIMEOUT_MS);
+
+  it("truncates with a marker when asked to", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const full = await deriveHtmlFromPdf(data);
+    const truncated = await deriveHtmlFromPdf(data, {
+      limits: { maxStructureElements: 3 },
+      onLimitExceeded: "truncate",
+    });
+    expect(truncated).toContain("<!-- pdf-truncated: maxStructureElements (3) -->");
+    expect(truncated).toContain("</html>");
+    expect(truncated.length).toBeLessThan(full.length);
+  }, TEST_TIMEOUT_MS);
+
+  it("checks maxImagePixels before reading image data", async () => {
+    const data = buildTaggedPdf({
+      content: "/P << /MCID 0 >> BDC q 80 0 0 40 20 50 cm /Im1 Do Q EMC",
+      resources: "/XObject << /Im1 9 0 R >>",
+      objects: [pdfStream(new Uint8Array(40 * 20 * 3).fill(200), "/Type /XObject /Subtype /Image /Width 40 /Height 20 /ColorSpace /DeviceRGB /BitsPerComponent 8")],
+    });
+    expect(await deriveHtmlFromPdf(data)).toContain('src="data:image/');
+
+    const getImageData = vi.spyOn(ContentExtractor.prototype, "getImageData");
+    try {
+      const truncated = await deriveHtmlFromPdf(data, { limits: { maxImagePixels: 100 }, onLimitExceeded: "truncate" });
+      expect(getImageData).not.toHaveBeenCalled();
+      expect(truncated).toContain('src="placeholder.png"');
+      expect(truncated).toContain("<!-- pdf-truncated: maxImagePixels (100) -->");
+    } finally {
+      getImageData.mockRestore();
+    }
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("deriveHtmlTreeFromPdf", () => {
+  it("returns an element tree that serializes to the HTML output", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const { tree, structureMap } = await deriveHtmlTreeFromPdf(data);
+    expect(toHtml(tree)).toBe(await deriveHtmlFromPdf(data));
+
+    const elements: HtmlElement[] = [];
+    const collect = (nodes: HtmlContent[]) => {
+      for (const node of nodes) {
+        if (node.type !== "element") continue;
+        elements.push(node);
+        collect(node.children);
+      }
+    };
+    collect(tree.children);
+    expect(elements[0].tagName).toBe("html");
+    const [elementId] = Object.keys(structureMap);
+    const mapped = elements.find((element) => element.properties.id === elementId);
+    expect(mapped?.properties["data-pdf-se-type"]).toBeTruthy();
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("deriveHtmlWithAssets", () => {
+  it("references images as separate files instead of data URIs", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const written: string[] = [];
+    const { html: output, assets } = await deriveHtmlWithAssets(data, {
+      assets: { directory: "media", onAsset: (assetPath) => written.push(assetPath) },
+    });
+    expect(output).not.toContain("data:image/");
+    expect(Object.keys(assets)).toEqual(written);
+    for (const [assetPath, file] of Object.entries(assets)) {
+      expect(assetPath).toMatch(/^media\/[0-9a-f]{16}\.\w+$/);
+      expect(output).toContain(`"${assetPath}"`);
+      expect(file.data.byteLength).toBeGreaterThan(0);
+    }
+
+    const { assets: inlined } = await deriveHtmlWithStructureTree(data);
+    expect(inlined).toEqual({});
+  }, TEST_TIMEOUT_MS);
+
+  it("leaves embedded fonts in the PDF", async () => {
+    const data = buildTaggedPdf({
+      fonts: "/F2 9 0 R",
+      objects: [
+        "<< /Type /Font /Subtype /TrueType /BaseFont /ABCDEF+Evil#22#29#3B#20#7D#20#3C#2Fstyle#3E#3Cscript#3Ealert#281#29#3C#2Fscript#3E /FontDescriptor 10 0 R >>",
+        "<< /Type /FontDescriptor /FontName /Evil /Flags 32 /FontFile2 11 0 R >>",
+        pdfStream("not a real font program"),
+      ],
+    });
+    const { html: output, assets } = await deriveHtmlWithAssets(data, { assets: { directory: "fonts" } });
+    expect(assets).toEqual({});
+    expect(output).not.toContain("@font-face");
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("deriveDocumentModelFromPdf", () => {
+  it("returns a versioned JSON model of blocks and inline runs", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const { model } = await deriveDocumentModelFromPdf(data);
+    expect(model.version).toBe(DOCUMENT_MODEL_VERSION);
+    expect(model.pageCount).toBeGreaterThan(0);
+    expect(JSON.parse(JSON.stringify(model))).toEqual(model);
+
+    const nodes: DocumentNode[] = [];
+    const collect = (children: DocumentNode[]) => {
+      for (const node of children) {
+        nodes.push(node);
+        if (node.type === "block" || node.type === "inline") collect(node.children);
+      }
+    };
+    collect(model.children);
+    expect(nodes.some((node) => node.type === "block")).toBe(true);
+    expect(nodes.some((node) => node.type === "text" && node.text.trim())).toBe(true);
+    for (const node of nodes) {
+      if ((node.type === "block" || node.type === "inline") && node.pageIndex !== undefined) {
+        expect(node.pageIndex).toBeLessThan(model.pageCount);
+      }
+    }
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("deriveMarkdownFromPdf", () => {
+  it("renders the document as Markdown", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const { markdown, assets } = await deriveMarkdownFromPdf(data);
+    expect(markdown.trim()).not.toBe("");
+    expect(markdown).not.toContain("<body");
+    expect(markdown).not.toContain("pdf-structure-map");
+    expect(assets).toEqual({});
+  }, TEST_TIMEOUT_MS);
+
+  it("maps lists with labels and simple tables, embedding HTML otherwise", () => {
+    const label = (value: string) => h("span", { "data-pdf-se-type": "Lbl" }, [text(value)]);
+    const markdown = toMarkdown([
+      h("h2", {}, [text("Results")]),
+      h("ol", { start: 2 }, [
+        h("li", {}, [label("2."), h("div", {}, [text("second")])]),
+        h("li", {}, [label("3."), h("div", {}, [text("third")])]),
+      ]),
+      h("table", {}, [
+        h("tr", {}, [h("th", {}, [text("Name")]), h("th", {}, [text("Value")])]),
+        h("tr", {}, [h("td", {}, [text("a")]), h("td", {}, [h("code", {}, [text("1")])])]),
+      ]),
+      h("table", {}, [h("tr", {}, [h("td", { colspan: 2 }, [text("merged")])])]),
+    ]);
+    expect(markdown).toBe([
+      "## Results",
+      "2. second\n3. third",
+      "| Name | Value |\n| --- | --- |\n| a | `1` |",
+      '<table><tr><td colspan="2">merged</td></tr></table>',
+    ].join("\n\n") + "\n");
+  });
+});
+
+describe("deriveTextFromPdf", () => {
+  it("renders the text in structure tree order", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const { text: plain } = await deriveTextFromPdf(data);
+    expect(plain.trim()).not.toBe("");
+    expect(plain).not.toContain("<");
+    expect(plain.endsWith("\n")).toBe(true);
+
+    const { text: marked } = await deriveTextFromPdf(data, {}, { structureMarkers: true, blockSeparator: "\n" });
+    const lines = marked.trimEnd().split("\n");
+    for (const line of lines) {
+      expect(line).toMatch(/^ *\[[A-Za-z0-9]+\]/);
+    }
+    // Markers only add prefixes: the words are the same
+    const words = (value: string) => value.replace(/^ *\[[A-Za-z0-9]+\] ?/gm, "").split(/\s+/).filter(Boolean);
+    expect(words(marked)).toEqual(words(plain));
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("deriveJatsFromPdf", () => {
+  it("renders a JATS 1.3 article", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const { jats, assets } = await deriveJatsFromPdf(data);
+    expect(jats.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE article')).toBe(true);
+    expect(jats).toContain('dtd-version="1.3"');
+    expect(jats).toMatch(/<front>\s*<article-meta>[\s\S]*<article-title>/);
+    expect(jats).toContain("<body>");
+    expect(jats).not.toContain("data-pdf-se-type");
+    expect(assets).toEqual({});
+
+    // Every cross-reference points at an element in the article
+    const ids = new Set([...jats.matchAll(/ id="([^"]+)"/g)].map((match) => match[1]));
+    for (const [, rid] of jats.matchAll(/<xref [^>]*rid="([^"]+)"/g)) {
+      expect(ids).toContain(rid);
+    }
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("deriveEpubFromPdf", () => {
+  it("packages the document in an OCF container", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const { epub, diagnostics } = await deriveEpubFromPdf(data);
+    expect(Array.isArray(diagnostics)).toBe(true);
+
+    const archive = Buffer.from(epub).toString("latin1");
+    // The mimetype entry comes first and is stored uncompressed
+    expect(archive.startsWith("PK\x03\x04")).toBe(true);
+    expect(archive.slice(30, 58)).toBe("mimetypeapplication/epub+zip");
+    for (const name of ["META-INF/container.xml", "EPUB/package.opf", "EPUB/nav.xhtml", "EPUB/document.xhtml"]) {
+      expect(archive).toContain(name);
+    }
+  }, TEST_TIMEOUT_MS);
+
+  it("writes associated HTML as well-formed XHTML and declares remote resources", async () => {
+    const markup = '<p class=note data-x=1>One<br>two<img src="https://example.com/figure.png" alt="Figure"></p>'
+      + '<svg viewBox="0 0 1 1"><rect width=1 height=1 /></svg>';
+    const data = buildTaggedPdf({
+      element: "/AF [9 0 R]",
+      objects: [
+        "<< /Type /Filespec /F (note.html) /AFRelationship /Supplement /EF << /F 10 0 R >> >>",
+        pdfStream(markup, "/Type /EmbeddedFile /Subtype /text#2Fhtml"),
+      ],
+    });
+    const { epub } = await deriveEpubFromPdf(data);
+    const content = readZipEntry(epub, "EPUB/document.xhtml")!;
+    expect(content).toContain('<p class="note" data-x="1">One<br />two<img src="https://example.com/figure.png" alt="Figure" /></p>');
+    expect(content).toContain('<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 1 1"><rect width="1" height="1"></rect></svg>');
+    expect(readZipEntry(epub, "EPUB/package.opf")).toMatch(/<item id="content" [^>]*properties="svg remote-resources"/);
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("deriveHtmlWithDiagnostics", () => {
+  it("returns structured diagnostics alongside the HTML", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const reported: Diagnostic[] = [];
+    const { html: output, diagnostics } = await deriveHtmlWithDiagnostics(data, {
+      limits: { maxStructureElements: 3 },
+      onLimitExceeded: "truncate",
+      onDiagnostic: (diagnostic) => reported.push(diagnostic),
+    });
+    expect(output).toContain("</html>");
+    expect(diagnostics).toEqual(reported);
+    expect(diagnostics).toContainEqual(expect.objectContaining({
+      severity: "warning",
+      code: "resource-limit-exceeded",
+    }));
+    for (const diagnostic of diagnostics) {
+      expect(["error", "warning", "info"]).toContain(diagnostic.severity);
+      expect(diagnostic.message).toBeTruthy();
+    }
+  }, TEST_TIMEOUT_MS);
+
+  it("returns only the diagnostics of each conversion when a context is reused", async () => {
+    // Extraction isn't permitted (reported once, when the document is opened) and the image is over the limit
+    const data = buildEncryptedPdf({ userPassword: "", ownerPassword: "owner", permissions: -4 & ~(1 << 4) & ~(1 << 9) }, {
+      content: "/P << /MCID 0 >> BDC q 80 0 0 40 20 50 cm /Im1 Do Q EMC",
+      resources: "/XObject << /Im1 9 0 R >>",
+      objects: [pdfStream(new Uint8Array(40 * 20 * 3), "/Type /XObject /Subtype /Image /Width 40 /Height 20 /ColorSpace /DeviceRGB /BitsPerComponent 8")],
+    });
+    const reused = await createPDFContext(data, {
+      permissions: "warn",
+      limits: { maxImagePixels: 100 },
+      onLimitExceeded: "truncate",
+    });
+    for (let run = 0; run < 2; run++) {
+      const { diagnostics } = await convertToHTMLWithStructureTree(reused);
+      expect(diagnostics.map((diagnostic) => diagnostic.code)).toEqual(["permissions-restricted", "resource-limit-exceeded"]);
+    }
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("deriveHtmlStreamFromPdf", () => {
+  it("streams the same HTML in several chunks", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const chunks: string[] = [];
+    for await (const chunk of deriveHtmlStreamFromPdf(data)) {
+      chunks.push(chunk);
+    }
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks[0].startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(chunks[0].endsWith("<body>\n")).toBe(true);
+    expect(chunks.join("")).toBe(await deriveHtmlFromPdf(data));
+  }, TEST_TIMEOUT_MS);
+
+  it("filters streamed output like the whole document in safe mode", async () => {
+    const data = new Uint8Array(fs.readFileSync(pdfPath));
+    const chunks: string[] = [];
+    for await (const chunk of deriveHtmlStreamFromPdf(data, { safeMode: true })) {
+      chunks.push(chunk);
+    }
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks.join("")).toBe(await deriveHtmlFromPdf(data, { safeMode: true }));
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("convertDirectory", () => {
+  it("mirrors the input layout and writes a per-file summary", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "tagged-pdf-batch-"));
+    try {
+      const inputDir = path.join(root, "in");
+      const outputDir = path.join(root, "out");
+      fs.mkdirSync(path.join(inputDir, "nested"), { recursive: true });
+      fs.copyFileSync(pdfPath, path.join(inputDir, "nested", "exercise.pdf"));
+      fs.writeFileSync(path.join(inputDir, "broken.pdf"), "not a pdf");
+
+      const summary = await convertDirectory(inputDir, outputDir, { concurrency: 2 });
+      expect(summary.total).toBe(2);
+      expect(summary.succeeded).toBe(1);
+      expect(summary.failed).toBe(1);
+      expect(summary.files.map((file) => [file.input, file.status])).toEqual([
+        ["broken.pdf", "failed"],
+        [path.join("nested", "exercise.pdf"), "success"],
+      ]);
+
+      const html = fs.readFileSync(path.join(outputDir, "nested", "exercise.html"), "utf8");
+      expect(html).toContain("<!DOCTYPE html>");
+      const written = JSON.parse(fs.readFileSync(path.join(outputDir, "summary.json"), "utf8"));
+      expect(written.files).toHaveLength(2);
+      expect(typeof written.files[1].durationMs).toBe("number");
+      expect(typeof written.files[1].warnings).toBe("number");
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("tagged-pdf-to-html CLI", () => {
+  const createIO = (stdin = new Uint8Array()) => {
+    const io = {
+      stdout: "",
+      stderr: "",
+      readStdin: async () => stdin,
+      writeStdout: async (data: string) => {
+        io.stdout += data;
+      },
+      writeStderr: (text: string) => {
+        io.stderr += text;
+      },
+    };
+    return io;
+  };
+
+  it("converts a file to stdout", async () => {
+    const io = createIO();
+    const code = await runCli([pdfPath, "--no-scripts", "--quiet"], io);
+    expect(code).toBe(EXIT_CODES.success);
+    expect(io.stdout).toContain("<!DOCTYPE html>");
+    expect(io.stdout).not.toContain("PDF ECMAScript Runtime");
+  }, TEST_TIMEOUT_MS);
+
+  it("reads stdin and reports corrupt input with its exit code", async () => {
+    const io = createIO(new TextEncoder().encode("not a pdf"));
+    const code = await runCli([], io);
+    expect(code).toBe(EXIT_CODES.corrupt);
+    expect(io.stdout).toBe("");
+  }, TEST_TIMEOUT_MS);
+
+  it("rejects invalid flags with the usage exit code", async () => {
+    const io = createIO();
+    expect(await runCli([pdfPath, "--pages", "7-3"], io)).toBe(EXIT_CODES.usage);
+    expect(io.stderr).toContain("Usage: tagged-pdf-to-html");
+  });
+
+  it("titles untitled files with their own name unless --filename is given", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "tagged-pdf-batch-"));
+    try {
+      const inputDir = path.join(root, "in");
+      fs.mkdirSync(inputDir);
+      fs.writeFileSync(path.join(inputDir, "untitled.pdf"), buildTaggedPdf());
+      const io = createIO();
+
+      expect(await runCli([inputDir, "--output", path.join(root, "out"), "--quiet"], io)).toBe(EXIT_CODES.success);
+      const html = fs.readFileSync(path.join(root, "out", "untitled.html"), "utf8");
+      expect(extractTagContent(html, "title")).toBe("untitled.pdf");
+
+      const args = [inputDir, "--output", path.join(root, "named"), "--filename", "Report", "--quiet"];
+      expect(await runCli(args, io)).toBe(EXIT_CODES.success);
+      const named = fs.readFileSync(path.join(root, "named", "untitled.html"), "utf8");
+      expect(extractTagContent(named, "title")).toBe("Report");
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("conversion server", () => {
+  const withServer = async (run: (baseUrl: string) => Promise<void>) => {
+    const server = createConversionServer({ maxBodySize: 10 * 1024 * 1024 });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    try {
+      await run(`http://127.0.0.1:${port}`);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  };
+
+  it("converts a raw PDF body to HTML or JSON", async () => {
+    const data = fs.readFileSync(pdfPath);
+    await withServer(async (baseUrl) => {
+      const htmlResponse = await fetch(`${baseUrl}/convert?scripts=false`, {
+        method: "POST",
+        headers: { "Content-Type": "application/pdf" },
+        body: data,
+      });
+      expect(htmlResponse.status).toBe(200);
+      expect(htmlResponse.headers.get("content-type")).toContain("text/html");
+      const html = await htmlResponse.text();
+      expect(html).toContain("<!DOCTYPE html>");
+      expect(html).not.toContain("PDF ECMAScript Runtime");
+
+      const form = new FormData();
+      form.append("file", new Blob([data], { type: "application/pdf" }), "upload.pdf");
+      const jsonResponse = await fetch(`${baseUrl}/convert?format=json`, { method: "POST", body: form });
+      expect(jsonResponse.status).toBe(200);
+      const json = await jsonResponse.json();
+      expect(json.html).toContain("<!DOCTYPE html>");
+      expect(Array.isArray(json.diagnostics)).toBe(true);
+      expect(Object.keys(json.structureMap).length).toBeGreaterThan(0);
+    });
+  }, TEST_TIMEOUT_MS);
+
+  it("maps bad requests to HTTP errors", async () => {
+    await withServer(async (baseUrl) => {
+      expect((await fetch(`${baseUrl}/convert`)).status).toBe(405);
+      const corrupt = await fetch(`${baseUrl}/convert`, { method: "POST", body: "not a pdf" });
+      expect(corrupt.status).toBe(400);
+      expect((await corrupt.json()).error.name).toBe("PDFFormatError");
+      const missing = await fetch(`${baseUrl}/convert?subtree=no-such-element`, { method: "POST", body: Buffer.from(buildTaggedPdf()) });
+      expect(missing.status).toBe(400);
+      expect((await missing.json()).error.name).toBe("StructureElementNotFoundError");
+      const tooLarge = await fetch(`${baseUrl}/convert`, { method: "POST", body: new Uint8Array(11 * 1024 * 1024) });
+      expect(tooLarge.status).toBe(413);
+    });
+  }, TEST_TIMEOUT_MS);
+});
+
+describe("createConverterPool", () => {
+  it("converts in a worker thread and rebuilds typed errors", async () => {
+    const pool = createConverterPool({ size: 1 });
+    try {
+      const data = new Uint8Array(fs.readFileSync(pdfPath));
+      const progress: ConversionProgress[] = [];
+      const result = await pool.convert(data, { onProgress: (p) => progress.push(p) });
+      expect(data.byteLength).toBe(0);
+      expect(result.html).toContain("<!DOCTYPE html>");
+      expect(Object.keys(result.structureMap).length).toBeGreaterThan(0);
+      expect(progress.length).toBeGreaterThan(0);
+
+      const limited = pool.convert(new Uint8Array(fs.readFileSync(pdfPath)), { limits: { maxStructureElements: 1 } });
+      await expect(limited).rejects.toBeInstanceOf(ResourceLimitError);
+      await expect(limited).rejects.toMatchObject({ limit: "maxStructureElements", max: 1 });
+    } finally {
+      await pool.destroy();
+    }
+  }, TEST_TIMEOUT_MS);
+
+  it("rejects options that can't be sent to a worker and stays usable", async () => {
+    const pool = createConverterPool({ size: 1 });
+    try {
+      const rewritten = pool.convert(buildTaggedPdf(), { urlPolicy: { rewrite: (url) => url } });
+      await expect(rewritten).rejects.toThrow("urlPolicy.rewrite can't be used with the converter pool.");
+
+      const uncloneable = { maxPages: () => 1 } as unknown as ConversionOptions["limits"];
+      await expect(pool.convert(buildTaggedPdf(), { limits: uncloneable })).rejects.toMatchObject({ name: "DataCloneError" });
+
+      const result = await pool.convert(buildTaggedPdf(), { urlPolicy: { schemes: ["https"] } });
+      expect(result.html).toContain("Hello tagged world");
+    } finally {
+      await pool.destroy();
+    }
+  }, TEST_TIMEOUT_MS);
+
+  it("calls onAsset on the calling thread", async () => {
+    const pool = createConverterPool({ size: 1 });
+    try {
+      const written: string[] = [];
+      const result = await pool.convert(new Uint8Array(fs.readFileSync(pdfPath)), {
+        assets: { directory: "media", onAsset: (assetPath, file) => {
+          expect(file.data.byteLength).toBeGreaterThan(0);
+          written.push(assetPath);
+        } },
+      });
+      expect(written.length).toBeGreaterThan(0);
+      expect(written).toEqual(Object.keys(result.assets));
+    } finally {
+      await pool.destroy();
+    }
+  }, TEST_TIMEOUT_MS);
+});